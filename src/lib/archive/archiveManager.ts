@@ -1,162 +1,116 @@
 // Archive Manager for OnlineCbrReader
-// Supports ZIP (CBZ) and RAR (CBR) files using libarchive.js
+// Opens comic files through the format provider matching their content:
+// ZIP (CBZ), RAR (CBR), 7z (CB7) and TAR (CBT) via libarchive.js in a worker, PDF via pdf.js
+// and image-based EPUBs
 
-import type { ComicPage } from '../../types/comic.js';
+import type { ComicInfo, ComicPage } from '../../types/comic.js';
 import { logger } from '../services/logger.js';
-import { Archive } from 'libarchive.js';
+import { createProvider, getComicFormat, isSupportedFilename, type ComicFormat, type FormatProvider } from './formatProvider.js';
+import { detectFormat, FormatError, FORMAT_LABELS } from './formatDetection.js';
+import { toDisplayableImage } from './imageDecoder.js';
+import { ArchiveWorkerError } from './archiveWorkerClient.js';
 
 class ArchiveManager {
-	private isInitialized = false;
-	private initPromise: Promise<void> | null = null;
+	// Provider of the last opened file
+	private provider: FormatProvider | null = null;
 
 	constructor() {}
 
-	private async initialize(): Promise<void> {
-		if (this.isInitialized) return;
-		if (this.initPromise) return this.initPromise;
-
-		this.initPromise = (async () => {
-			try {
-				Archive.init({
-					workerUrl: '/libarchive/worker-bundle.js'
-				});
-				
-				this.isInitialized = true;
-				logger.info('ArchiveManager', 'libarchive.js initialized');
-			} catch (error: any) {
-				throw new Error(`Failed to initialize libarchive.js: ${error.message}`);
-			}
-		})();
-
-		return this.initPromise;
-	}
+	async openArchive(file: File): Promise<ComicPage[]> {
+		const declared = getComicFormat(file.name);
+		const format = await this.resolveFormat(file, declared);
+		const isMismatch = declared !== null && declared !== format;
+		if (isMismatch) {
+			logger.warn('ArchiveManager', `${file.name} is named as ${FORMAT_LABELS[declared]} but contains ${FORMAT_LABELS[format]} data`);
+		}
 
-	private isImageFile(filename: string): boolean {
-		const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
-		const extension = filename.toLowerCase().slice(filename.lastIndexOf('.'));
-		return imageExtensions.includes(extension);
-	}
+		// The previous file stays open until this one has opened
+		const provider = createProvider(format);
 
-	async openArchive(file: File): Promise<ComicPage[]> {
-		await this.initialize();
-
-		return new Promise(async (resolve, reject) => {
-			try {
-
-				// Open the archive
-				const archive = await Archive.open(file);
-				logger.info('ArchiveManager', `Opened archive: ${file.name}`);
-
-				// Get file listing
-				const filesObj = await archive.getFilesObject();
-				
-			// Flatten and convert to our format
-			const entries: Array<{ name: string; size: number; archiveFile: any }> = [];
-			
-			const processFileObj = (obj: Record<string, any>, basePath = '') => {
-				for (const [name, item] of Object.entries(obj)) {
-					const fullPath = basePath ? `${basePath}/${name}` : name;
-					
-					if (item && typeof item === 'object' && 'extract' in item) {
-						// This is a compressed file
-						if (this.isImageFile(fullPath)) {
-							entries.push({
-								name: fullPath,
-								size: (item as any).size || 0,
-								archiveFile: item
-							});
-						}
-					} else if (typeof item === 'object') {
-						// This is a directory, recurse
-						processFileObj(item as Record<string, any>, fullPath);
-					}
-				}
-			};
-			
-			processFileObj(filesObj as Record<string, any>);
-
-				// Sort entries by filename
-				const sortedEntries = entries.sort((a, b) => 
-					a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+		let pages: ComicPage[];
+		try {
+			pages = await provider.open(file);
+		} catch (error) {
+			provider.cleanup();
+			logger.error('ArchiveManager', 'Failed to open archive', error);
+			if (isMismatch) {
+				throw new FormatError(
+					'FORMAT_MISMATCH',
+					`${file.name} has a .${file.name.split('.').pop()} extension but is actually a ${FORMAT_LABELS[format]} file, and it could not be read.`
 				);
+			}
+			throw error;
+		}
 
-				logger.info('ArchiveManager', `Found ${sortedEntries.length} image files`);
+		if (pages.length === 0) {
+			provider.cleanup();
+			throw new FormatError(
+				isMismatch ? 'FORMAT_MISMATCH' : 'FORMAT_NO_IMAGES',
+				isMismatch
+					? `${file.name} is actually a ${FORMAT_LABELS[format]} file and contains no images.`
+					: `No images found in ${file.name}. The file may be corrupted.`
+			);
+		}
 
-				// Convert entries to ComicPage format
-				const pages: ComicPage[] = sortedEntries.map((entry, index) => ({
-					index,
-					filename: entry.name,
-					entry: entry.archiveFile // Store the raw entry for later data loading
-				}));
+		this.provider?.cleanup();
+		this.provider = provider;
+		return pages;
+	}
 
-				resolve(pages);
-			} catch (error) {
-				logger.error('ArchiveManager', 'Failed to open archive', error);
-				reject(error);
-			}
-		});
+	// Picks the backend from the file content, falling back to the extension for
+	// EPUBs packaged without the leading mimetype entry (they sniff as plain ZIPs)
+	private async resolveFormat(file: File, declared: ComicFormat | null): Promise<ComicFormat> {
+		const sniffed = await detectFormat(file);
+		if (sniffed === 'zip' && declared === 'epub') return 'epub';
+		if (sniffed) return sniffed;
+
+		if (declared) {
+			throw new FormatError(
+				'FORMAT_UNRECOGNIZED',
+				`${file.name} is not a valid ${FORMAT_LABELS[declared]} file: its content doesn't match any supported format.`
+			);
+		}
+		throw new FormatError('FORMAT_UNSUPPORTED', `${file.name} is not a supported comic format.`);
 	}
 
-	async loadPage(page: ComicPage): Promise<void> {
+	async loadPage(page: ComicPage, signal?: AbortSignal): Promise<void> {
 		if (page.blob) return; // Already loaded
 
-		const archiveFile = (page as any).entry;
-		if (!archiveFile) {
-			throw new Error('Page archive file not found');
+		if (!this.provider) {
+			throw new Error('No archive is open');
 		}
 
 		try {
-			// Extract the file using libarchive.js
-			const extractedFile = await archiveFile.extract();
-			
-			// Create blob and URL
-			const mimeType = this.getMimeType(page.filename);
-			page.blob = new Blob([extractedFile], { type: mimeType });
+			page.blob = await toDisplayableImage(await this.provider.loadPage(page, signal), page.filename);
 			page.url = URL.createObjectURL(page.blob);
 		} catch (error) {
+			// Cancellation is not a failure, let callers tell the two apart
+			if (error instanceof ArchiveWorkerError && error.cancelled) throw error;
 			logger.error('ArchiveManager', `Failed to extract ${page.filename}`, error);
 			throw new Error(`Failed to extract page: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	}
 
-	private getMimeType(filename: string): string {
-		const extension = filename.toLowerCase().slice(filename.lastIndexOf('.'));
-		const mimeTypes: { [key: string]: string } = {
-			'.jpg': 'image/jpeg',
-			'.jpeg': 'image/jpeg',
-			'.png': 'image/png',
-			'.gif': 'image/gif',
-			'.bmp': 'image/bmp',
-			'.webp': 'image/webp'
-		};
-		return mimeTypes[extension] || 'image/jpeg';
+	// Reads the metadata embedded in the last opened file (ComicInfo.xml, PDF info, EPUB package)
+	async readComicInfo(): Promise<ComicInfo | null> {
+		return this.provider ? this.provider.readComicInfo() : null;
 	}
 
-	// Helper method to check if a file is supported
+	// Helper method to check if a file is supported, by content or, failing that, by extension
+	// so that openArchive can report what is wrong with a mis-named file
 	async isSupported(file: File): Promise<boolean> {
-		const filename = file.name.toLowerCase();
-		return filename.endsWith('.cbz') || 
-		       filename.endsWith('.zip') || 
-		       filename.endsWith('.cbr') || 
-		       filename.endsWith('.rar');
+		return isSupportedFilename(file.name) || (await detectFormat(file)) !== null;
 	}
 
 	// Get file type for display purposes
-	async getFileType(file: File): Promise<'zip' | 'rar' | 'unknown'> {
-		const filename = file.name.toLowerCase();
-		if (filename.endsWith('.cbz') || filename.endsWith('.zip')) {
-			return 'zip';
-		} else if (filename.endsWith('.cbr') || filename.endsWith('.rar')) {
-			return 'rar';
-		} else {
-			return 'unknown';
-		}
+	async getFileType(file: File): Promise<ComicFormat | 'unknown'> {
+		return (await detectFormat(file)) ?? getComicFormat(file.name) ?? 'unknown';
 	}
 
 	// Clean up resources
 	cleanup(): void {
-		// The uncompress library doesn't provide explicit cleanup
-		// But we can revoke any object URLs that were created
+		this.provider?.cleanup();
+		this.provider = null;
 		logger.info('ArchiveManager', 'Cleanup completed');
 	}
 }
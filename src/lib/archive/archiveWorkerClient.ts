@@ -0,0 +1,112 @@
+// Archive Worker client
+// Promise API over the archive.worker.ts message protocol, one worker per client.
+
+import type {
+	ArchiveListedResponse,
+	ArchiveWorkerRequest,
+	ArchiveWorkerResponse,
+	PageExtractedResponse
+} from '../../types/comic.js';
+
+type PendingRequest = {
+	resolve: (response: ArchiveListedResponse | PageExtractedResponse) => void;
+	reject: (error: Error) => void;
+};
+
+export class ArchiveWorkerError extends Error {
+	constructor(
+		message: string,
+		public cancelled = false
+	) {
+		super(message);
+		this.name = 'ArchiveWorkerError';
+	}
+}
+
+export class ArchiveWorkerClient {
+	private worker: Worker | null = null;
+	private nextRequestId = 0;
+	private pending = new Map<string, PendingRequest>();
+
+	// Lists the page images of an archive, replacing the one opened before
+	async list(file: File, signal?: AbortSignal): Promise<ArchiveListedResponse['payload']> {
+		const response = await this.request({ id: this.createId(), type: 'LIST_ARCHIVE', payload: { file } }, signal);
+		return (response as ArchiveListedResponse).payload;
+	}
+
+	async extract(index: number, signal?: AbortSignal): Promise<ArrayBuffer> {
+		const response = await this.request({ id: this.createId(), type: 'EXTRACT_PAGE', payload: { index } }, signal);
+		return (response as PageExtractedResponse).payload.data;
+	}
+
+	terminate(): void {
+		const error = new ArchiveWorkerError('Archive worker terminated', true);
+		for (const request of this.pending.values()) request.reject(error);
+		this.pending.clear();
+		this.worker?.terminate();
+		this.worker = null;
+	}
+
+	private createId(): string {
+		return String(++this.nextRequestId);
+	}
+
+	private getWorker(): Worker {
+		if (!this.worker) {
+			this.worker = new Worker(new URL('../workers/archive.worker.ts', import.meta.url), { type: 'module' });
+			this.worker.onmessage = (event: MessageEvent<ArchiveWorkerResponse>) => this.handleResponse(event.data);
+			this.worker.onerror = (event) => {
+				const error = new ArchiveWorkerError(event.message || 'Archive worker crashed');
+				for (const request of this.pending.values()) request.reject(error);
+				this.pending.clear();
+				this.worker?.terminate();
+				this.worker = null;
+			};
+		}
+		return this.worker;
+	}
+
+	private handleResponse(response: ArchiveWorkerResponse): void {
+		const request = this.pending.get(response.id);
+		// Cancelled requests were already settled on this side
+		if (!request) return;
+		this.pending.delete(response.id);
+
+		if (response.type === 'ERROR') {
+			request.reject(new ArchiveWorkerError(response.payload.message, response.payload.cancelled));
+		} else {
+			request.resolve(response);
+		}
+	}
+
+	private request(
+		message: Exclude<ArchiveWorkerRequest, { type: 'CANCEL' }>,
+		signal?: AbortSignal
+	): Promise<ArchiveListedResponse | PageExtractedResponse> {
+		if (signal?.aborted) {
+			return Promise.reject(new ArchiveWorkerError('Request cancelled', true));
+		}
+
+		const worker = this.getWorker();
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				if (!this.pending.delete(message.id)) return;
+				worker.postMessage({ id: this.createId(), type: 'CANCEL', payload: { requestId: message.id } } satisfies ArchiveWorkerRequest);
+				reject(new ArchiveWorkerError('Request cancelled', true));
+			};
+
+			this.pending.set(message.id, {
+				resolve: (response) => {
+					signal?.removeEventListener('abort', onAbort);
+					resolve(response);
+				},
+				reject: (error) => {
+					signal?.removeEventListener('abort', onAbort);
+					reject(error);
+				}
+			});
+			signal?.addEventListener('abort', onAbort, { once: true });
+			worker.postMessage(message);
+		});
+	}
+}
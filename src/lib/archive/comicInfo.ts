@@ -0,0 +1,108 @@
+// ComicInfo.xml parser
+// Maps the (ComicRack) ComicInfo schema onto our ComicInfo model
+
+import type { ComicInfo, ComicInfoPage, ComicPageType } from '../../types/comic.js';
+
+const PAGE_TYPES: ComicPageType[] = [
+	'FrontCover',
+	'InnerCover',
+	'Roundup',
+	'Story',
+	'Advertisement',
+	'Editorial',
+	'Letters',
+	'Preview',
+	'BackCover',
+	'Other',
+	'Deleted'
+];
+
+export function isComicInfoFile(path: string): boolean {
+	const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+	return name === 'comicinfo.xml';
+}
+
+function readText(root: Element, tag: string): string | undefined {
+	// The schema is case-sensitive but taggers are not always careful
+	for (const child of Array.from(root.children)) {
+		if (child.tagName.toLowerCase() === tag.toLowerCase()) {
+			const value = child.textContent?.trim();
+			return value ? value : undefined;
+		}
+	}
+	return undefined;
+}
+
+function readNumber(root: Element, tag: string): number | undefined {
+	const value = readText(root, tag);
+	if (value === undefined) return undefined;
+	const parsed = Number(value);
+	// ComicInfo uses -1 for "unknown" on numeric fields
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function readPages(root: Element): ComicInfoPage[] | undefined {
+	const pagesNode = Array.from(root.children).find((child) => child.tagName.toLowerCase() === 'pages');
+	if (!pagesNode) return undefined;
+
+	const pages: ComicInfoPage[] = [];
+	for (const node of Array.from(pagesNode.children)) {
+		const image = Number(node.getAttribute('Image'));
+		if (!Number.isInteger(image) || image < 0) continue;
+
+		const rawType = node.getAttribute('Type') || 'Story';
+		const type = PAGE_TYPES.find((t) => t.toLowerCase() === rawType.toLowerCase()) || 'Other';
+		const page: ComicInfoPage = { image, type };
+		if (node.getAttribute('DoublePage')?.toLowerCase() === 'true') {
+			page.doublePage = true;
+		}
+		pages.push(page);
+	}
+
+	return pages.length > 0 ? pages : undefined;
+}
+
+export function parseComicInfo(xml: string): ComicInfo | null {
+	const doc = new DOMParser().parseFromString(xml, 'application/xml');
+	if (doc.getElementsByTagName('parsererror').length > 0) {
+		throw new Error('ComicInfo.xml is not well-formed');
+	}
+
+	const root = doc.documentElement;
+	if (!root || root.tagName.toLowerCase() !== 'comicinfo') {
+		return null;
+	}
+
+	const info: ComicInfo = {
+		title: readText(root, 'Title'),
+		series: readText(root, 'Series'),
+		number: readText(root, 'Number'),
+		count: readNumber(root, 'Count'),
+		volume: readNumber(root, 'Volume'),
+		writer: readText(root, 'Writer'),
+		artist: readText(root, 'Penciller') || readText(root, 'CoverArtist') || readText(root, 'Inker'),
+		publisher: readText(root, 'Publisher'),
+		year: readNumber(root, 'Year'),
+		month: readNumber(root, 'Month'),
+		summary: readText(root, 'Summary'),
+		genre: readText(root, 'Genre'),
+		pageTypes: readPages(root)
+	};
+
+	const tags = readText(root, 'Tags');
+	if (tags) {
+		info.tags = tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+	}
+
+	// Only "YesAndRightToLeft" implies RTL; plain "Yes" is manga in LTR order
+	if (readText(root, 'Manga')?.toLowerCase() === 'yesandrighttoleft') {
+		info.readingDirection = 'rtl';
+	}
+
+	// Drop unset keys so the stored record stays compact
+	for (const key of Object.keys(info) as (keyof ComicInfo)[]) {
+		if (info[key] === undefined) delete info[key];
+	}
+
+	return info;
+}
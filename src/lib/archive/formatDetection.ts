@@ -0,0 +1,81 @@
+// Comic format detection by content
+// File extensions lie (a .cbr is often a renamed ZIP), so the first bytes of the file decide
+// which backend opens it. The extension is only a hint used for error messages.
+
+import type { ComicFormat } from './formatProvider.js';
+
+export type FormatErrorCode =
+	| 'FORMAT_UNSUPPORTED' // Neither the extension nor the content is a comic format
+	| 'FORMAT_UNRECOGNIZED' // Comic extension, but the content matches no known signature
+	| 'FORMAT_MISMATCH' // Content is another format than the extension says and couldn't be read
+	| 'FORMAT_NO_IMAGES'; // Opened fine but holds no pages
+
+export class FormatError extends Error {
+	constructor(
+		public code: FormatErrorCode,
+		message: string
+	) {
+		super(message);
+		this.name = 'FormatError';
+	}
+}
+
+export const FORMAT_LABELS: Record<ComicFormat, string> = {
+	zip: 'ZIP',
+	rar: 'RAR',
+	'7z': '7z',
+	tar: 'TAR',
+	pdf: 'PDF',
+	epub: 'EPUB'
+};
+
+// The tar magic sits after the 257-byte header name/mode/size fields
+const SNIFF_LENGTH = 512;
+const ZIP_SIGNATURES = [
+	[0x50, 0x4b, 0x03, 0x04], // Local file header
+	[0x50, 0x4b, 0x05, 0x06], // Empty archive
+	[0x50, 0x4b, 0x07, 0x08] // Spanned archive
+];
+const RAR4_SIGNATURE = [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00];
+const RAR5_SIGNATURE = [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00];
+const SEVEN_ZIP_SIGNATURE = [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c];
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d]; // "%PDF-"
+const TAR_MAGIC = [0x75, 0x73, 0x74, 0x61, 0x72]; // "ustar" at offset 257
+const TAR_MAGIC_OFFSET = 257;
+// EPUBs must store an uncompressed "mimetype" entry first, so its content is at a fixed offset
+const EPUB_MIMETYPE_NAME = 'mimetype';
+const EPUB_MIMETYPE = 'application/epub+zip';
+
+function matches(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+	if (bytes.length < offset + signature.length) return false;
+	return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function isEpub(bytes: Uint8Array): boolean {
+	const nameLength = bytes[26] | (bytes[27] << 8);
+	const extraLength = bytes[28] | (bytes[29] << 8);
+	if (nameLength !== EPUB_MIMETYPE_NAME.length) return false;
+
+	const decoder = new TextDecoder();
+	const name = decoder.decode(bytes.subarray(30, 30 + nameLength));
+	const start = 30 + nameLength + extraLength;
+	const content = decoder.decode(bytes.subarray(start, start + EPUB_MIMETYPE.length));
+	return name === EPUB_MIMETYPE_NAME && content === EPUB_MIMETYPE;
+}
+
+// Identifies the container format from the leading bytes of a file
+export function sniffFormat(bytes: Uint8Array): ComicFormat | null {
+	if (ZIP_SIGNATURES.some((signature) => matches(bytes, signature))) {
+		return isEpub(bytes) ? 'epub' : 'zip';
+	}
+	if (matches(bytes, RAR4_SIGNATURE) || matches(bytes, RAR5_SIGNATURE)) return 'rar';
+	if (matches(bytes, SEVEN_ZIP_SIGNATURE)) return '7z';
+	if (matches(bytes, PDF_SIGNATURE)) return 'pdf';
+	if (matches(bytes, TAR_MAGIC, TAR_MAGIC_OFFSET)) return 'tar';
+	return null;
+}
+
+export async function detectFormat(file: Blob): Promise<ComicFormat | null> {
+	const head = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+	return sniffFormat(head);
+}
@@ -0,0 +1,72 @@
+// Format providers
+// Each comic container format (archives, PDF, EPUB) implements the same small contract,
+// ArchiveManager picks one per file and keeps its openArchive/loadPage API unchanged.
+
+import type { ComicInfo, ComicPage } from '../../types/comic.js';
+import { LibarchiveProvider } from './providers/libarchiveProvider.js';
+import { PdfProvider } from './providers/pdfProvider.js';
+import { EpubProvider } from './providers/epubProvider.js';
+
+export type ComicFormat = 'zip' | 'rar' | '7z' | 'tar' | 'pdf' | 'epub';
+
+export interface FormatProvider {
+	// Lists the pages of the file in reading order, without decoding them
+	open(file: File): Promise<ComicPage[]>;
+	// Produces the image for one page returned by open(), the signal abandons a queued request
+	loadPage(page: ComicPage, signal?: AbortSignal): Promise<Blob>;
+	// Metadata embedded in the file, if the format carries any
+	readComicInfo(): Promise<ComicInfo | null>;
+	cleanup(): void;
+}
+
+// libarchive.js reads every archive format, PDF and EPUB need their own readers
+const PROVIDERS: Record<ComicFormat, () => FormatProvider> = {
+	zip: () => new LibarchiveProvider(),
+	rar: () => new LibarchiveProvider(),
+	'7z': () => new LibarchiveProvider(),
+	tar: () => new LibarchiveProvider(),
+	pdf: () => new PdfProvider(),
+	epub: () => new EpubProvider()
+};
+
+const EXTENSION_FORMATS: Record<string, ComicFormat> = {
+	cbz: 'zip',
+	zip: 'zip',
+	cbr: 'rar',
+	rar: 'rar',
+	cb7: '7z',
+	'7z': '7z',
+	cbt: 'tar',
+	tar: 'tar',
+	pdf: 'pdf',
+	epub: 'epub'
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+// Value for <input type="file" accept>
+export const SUPPORTED_ACCEPT = SUPPORTED_EXTENSIONS.map((ext) => `.${ext}`).join(',');
+
+function getExtension(filename: string): string {
+	const dot = filename.lastIndexOf('.');
+	return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+export function isSupportedFilename(filename: string): boolean {
+	return Object.hasOwn(EXTENSION_FORMATS, getExtension(filename));
+}
+
+// The format a file claims to be by its extension, the content may disagree (see formatDetection)
+export function getComicFormat(filename: string): ComicFormat | null {
+	const ext = getExtension(filename);
+	return Object.hasOwn(EXTENSION_FORMATS, ext) ? EXTENSION_FORMATS[ext] : null;
+}
+
+export function createProvider(format: ComicFormat): FormatProvider {
+	return PROVIDERS[format]();
+}
+
+// Display title for a comic file, e.g. "Issue 01.cbz" -> "Issue 01"
+export function stripComicExtension(filename: string): string {
+	return isSupportedFilename(filename) ? filename.slice(0, filename.lastIndexOf('.')) : filename;
+}
@@ -0,0 +1,123 @@
+// Page image normalisation
+// Gives every extracted page the MIME type its signature says it has and, for formats the
+// browser can't decode (JPEG XL and TIFF in most browsers), decodes them in software and
+// re-encodes them as PNG so <img>, canvas and createImageBitmap all work on the result.
+// SVG pages are rasterised too: createImageBitmap and workers can't decode them.
+
+import { logger } from '../services/logger.js';
+import { getImageMimeType, IMAGE_SNIFF_LENGTH, sniffImageType } from './imageTypes.js';
+
+// SVG pages are drawn at least this wide so they stay sharp when zoomed
+const SVG_RENDER_WIDTH = 2048;
+// Fallback size for SVGs without width/height attributes
+const SVG_DEFAULT_WIDTH = 1500;
+
+type SoftwareDecoder = (data: ArrayBuffer) => Promise<ImageData>;
+
+// Decoders are only downloaded when a page actually needs them
+const SOFTWARE_DECODERS: Record<string, () => Promise<SoftwareDecoder>> = {
+	'image/jxl': async () => {
+		const { default: decode } = await import('@jsquash/jxl/decode');
+		return decode;
+	},
+	'image/tiff': async () => {
+		const { default: UTIF } = await import('utif2');
+		return async (data) => {
+			// Comic pages hold one image per file, use the first one
+			const [ifd] = UTIF.decode(data);
+			if (!ifd) throw new Error('TIFF has no images');
+			UTIF.decodeImage(data, ifd);
+			const rgba = new Uint8ClampedArray(UTIF.toRGBA8(ifd));
+			return new ImageData(rgba, ifd.width, ifd.height);
+		};
+	}
+};
+
+// Whether the browser decoded a type natively, learned from the first page of that type
+const nativeSupport = new Map<string, boolean>();
+const decoderPromises = new Map<string, Promise<SoftwareDecoder>>();
+
+async function canDecodeNatively(blob: Blob): Promise<boolean> {
+	const known = nativeSupport.get(blob.type);
+	if (known !== undefined) return known;
+
+	let isSupported: boolean;
+	try {
+		const bitmap = await createImageBitmap(blob);
+		bitmap.close();
+		isSupported = true;
+	} catch {
+		isSupported = false;
+	}
+	nativeSupport.set(blob.type, isSupported);
+	logger.info('ImageDecoder', `Native ${blob.type} decoding ${isSupported ? 'available' : 'unavailable'}`);
+	return isSupported;
+}
+
+function loadDecoder(type: string): Promise<SoftwareDecoder> {
+	let promise = decoderPromises.get(type);
+	if (!promise) {
+		promise = SOFTWARE_DECODERS[type]();
+		promise.catch(() => decoderPromises.delete(type));
+		decoderPromises.set(type, promise);
+	}
+	return promise;
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode page'))), 'image/png');
+	});
+}
+
+async function imageDataToPng(image: ImageData): Promise<Blob> {
+	const canvas = document.createElement('canvas');
+	canvas.width = image.width;
+	canvas.height = image.height;
+	canvas.getContext('2d')!.putImageData(image, 0, 0);
+	return canvasToPng(canvas);
+}
+
+async function rasterizeSvg(blob: Blob): Promise<Blob> {
+	const url = URL.createObjectURL(blob);
+	try {
+		const img = new Image();
+		img.src = url;
+		await img.decode();
+
+		const width = img.naturalWidth || SVG_DEFAULT_WIDTH;
+		const height = img.naturalHeight || Math.round(width * 1.5);
+		const scale = Math.max(1, SVG_RENDER_WIDTH / width);
+
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.round(width * scale);
+		canvas.height = Math.round(height * scale);
+		const ctx = canvas.getContext('2d')!;
+		// Transparent SVG backgrounds would show the reader background through the page
+		ctx.fillStyle = '#fff';
+		ctx.fillRect(0, 0, canvas.width, canvas.height);
+		ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+		return canvasToPng(canvas);
+	} finally {
+		URL.revokeObjectURL(url);
+	}
+}
+
+// Returns a blob the browser can display for an extracted page
+export async function toDisplayableImage(blob: Blob, filename: string): Promise<Blob> {
+	const head = new Uint8Array(await blob.slice(0, IMAGE_SNIFF_LENGTH).arrayBuffer());
+	const type = sniffImageType(head) ?? getImageMimeType(filename);
+	const typed = blob.type === type ? blob : new Blob([blob], { type });
+
+	if (type === 'image/svg+xml') {
+		return rasterizeSvg(typed);
+	}
+	if (!(type in SOFTWARE_DECODERS) || (await canDecodeNatively(typed))) {
+		return typed;
+	}
+
+	const decode = await loadDecoder(type);
+	const image = await decode(await typed.arrayBuffer());
+	logger.debug('ImageDecoder', `Decoded ${filename} (${type}) in software`);
+	return imageDataToPng(image);
+}
@@ -0,0 +1,89 @@
+// Image file helpers shared by the format providers
+// Extensions are only a first guess: page types are confirmed from the file signature,
+// so mis-named or extension-less pages still load with the right MIME type.
+
+const MIME_TYPES: Record<string, string> = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.gif': 'image/gif',
+	'.bmp': 'image/bmp',
+	'.webp': 'image/webp',
+	'.avif': 'image/avif',
+	'.jxl': 'image/jxl',
+	'.tif': 'image/tiff',
+	'.tiff': 'image/tiff',
+	'.svg': 'image/svg+xml'
+};
+
+// Files that archivers and operating systems leave behind next to the pages
+const IGNORED_NAMES = new Set(['thumbs.db', '.ds_store', 'desktop.ini']);
+const IGNORED_DIRECTORIES = ['__macosx/'];
+
+// How many leading bytes sniffImageType needs; SVG may start with a long XML prolog
+export const IMAGE_SNIFF_LENGTH = 512;
+
+function getExtension(filename: string): string {
+	return filename.toLowerCase().slice(filename.lastIndexOf('.'));
+}
+
+export function isImageFile(filename: string): boolean {
+	return getExtension(filename) in MIME_TYPES;
+}
+
+export function getImageMimeType(filename: string): string {
+	return MIME_TYPES[getExtension(filename)] || 'image/jpeg';
+}
+
+// True for OS metadata such as __MACOSX/ resource forks, Thumbs.db or AppleDouble "._" files
+export function isIgnoredEntry(path: string): boolean {
+	const lower = path.toLowerCase();
+	const name = lower.slice(lower.lastIndexOf('/') + 1);
+	if (IGNORED_DIRECTORIES.some((dir) => lower.startsWith(dir) || lower.includes(`/${dir}`))) return true;
+	return IGNORED_NAMES.has(name) || name.startsWith('._');
+}
+
+function matches(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+	if (bytes.length < offset + signature.length) return false;
+	return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+	return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+// ISO-BMFF files list their brands in the leading "ftyp" box
+function hasFtypBrand(bytes: Uint8Array, brands: string[]): boolean {
+	if (ascii(bytes, 4, 4) !== 'ftyp') return false;
+	const boxSize = Math.min(bytes.length, ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0);
+	// Major brand at 8, then minor version, then compatible brands
+	for (let offset = 8; offset + 4 <= boxSize; offset += offset === 8 ? 8 : 4) {
+		if (brands.includes(ascii(bytes, offset, 4))) return true;
+	}
+	return false;
+}
+
+// Identifies an image from its leading bytes, returns its MIME type
+export function sniffImageType(bytes: Uint8Array): string | null {
+	if (matches(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+	if (matches(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+	if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+	if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+	if (hasFtypBrand(bytes, ['avif', 'avis'])) return 'image/avif';
+	if (matches(bytes, [0xff, 0x0a]) || matches(bytes, [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a])) {
+		return 'image/jxl';
+	}
+	if (matches(bytes, [0x49, 0x49, 0x2a, 0x00]) || matches(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+	if (ascii(bytes, 0, 2) === 'BM') return 'image/bmp';
+
+	const text = new TextDecoder().decode(bytes.subarray(0, IMAGE_SNIFF_LENGTH)).trimStart().toLowerCase();
+	const isMarkup = ['<?xml', '<svg', '<!--', '<!doctype svg'].some((prefix) => text.startsWith(prefix));
+	if (isMarkup && text.includes('<svg')) {
+		return 'image/svg+xml';
+	}
+	return null;
+}
+
+export function compareFilenames(a: string, b: string): number {
+	return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
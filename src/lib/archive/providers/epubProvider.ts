@@ -0,0 +1,207 @@
+// Image-based (fixed-layout) EPUBs
+// An EPUB is a ZIP whose page order comes from the OPF spine rather than from filenames:
+// each spine document is resolved to the image(s) it displays.
+
+import type { ComicInfo, ComicPage } from '../../../types/comic.js';
+import type { FormatProvider } from '../formatProvider.js';
+import { logger } from '../../services/logger.js';
+import { readZipEntries, readZipEntry, type ZipEntry } from '../../utils/zipReader.js';
+import { compareFilenames, getImageMimeType, isImageFile } from '../imageTypes.js';
+
+interface ManifestItem {
+	href: string; // Path inside the ZIP, already resolved against the OPF location
+	mediaType: string;
+}
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+function dirname(path: string): string {
+	const slash = path.lastIndexOf('/');
+	return slash === -1 ? '' : path.slice(0, slash + 1);
+}
+
+// Resolves an href relative to the document that references it, e.g. "../images/p1.jpg"
+function resolvePath(base: string, href: string): string {
+	const target = decodeURIComponent(href.split('#')[0]);
+	const parts = (target.startsWith('/') ? target.slice(1) : dirname(base) + target).split('/');
+	const resolved: string[] = [];
+	for (const part of parts) {
+		if (part === '..') resolved.pop();
+		else if (part !== '.' && part !== '') resolved.push(part);
+	}
+	return resolved.join('/');
+}
+
+function parseXml(text: string, type: DOMParserSupportedType = 'application/xml'): Document {
+	const doc = new DOMParser().parseFromString(text, type);
+	if (doc.getElementsByTagName('parsererror').length > 0) {
+		// XHTML in the wild often uses HTML entities, which the XML parser rejects
+		return new DOMParser().parseFromString(text, 'text/html');
+	}
+	return doc;
+}
+
+// Namespace-agnostic lookup, OPF files mix default and prefixed namespaces
+function elementsByName(root: Document | Element, localName: string): Element[] {
+	return Array.from(root.getElementsByTagNameNS('*', localName));
+}
+
+export class EpubProvider implements FormatProvider {
+	private file: File | null = null;
+	private entries = new Map<string, ZipEntry>();
+	private pagePaths: string[] = [];
+	private mediaTypes = new Map<string, string>();
+	private opf: Document | null = null;
+
+	async open(file: File): Promise<ComicPage[]> {
+		this.cleanup();
+		this.file = file;
+
+		for (const entry of await readZipEntries(file)) {
+			this.entries.set(entry.name, entry);
+		}
+
+		const opfPath = await this.findPackagePath();
+		this.opf = parseXml(await this.readText(opfPath));
+
+		const manifest = new Map<string, ManifestItem>();
+		for (const item of elementsByName(this.opf, 'item')) {
+			const id = item.getAttribute('id');
+			const href = item.getAttribute('href');
+			if (!id || !href) continue;
+			const resolved = resolvePath(opfPath, href);
+			const mediaType = item.getAttribute('media-type') ?? '';
+			manifest.set(id, { href: resolved, mediaType });
+			this.mediaTypes.set(resolved, mediaType);
+		}
+
+		const seen = new Set<string>();
+		const addPage = (path: string) => {
+			if (seen.has(path) || !this.entries.has(path)) return;
+			seen.add(path);
+			this.pagePaths.push(path);
+		};
+
+		for (const itemref of elementsByName(this.opf, 'itemref')) {
+			const item = manifest.get(itemref.getAttribute('idref') ?? '');
+			if (!item) continue;
+
+			if (item.mediaType.startsWith('image/')) {
+				addPage(item.href);
+			} else {
+				for (const image of await this.findDocumentImages(item)) addPage(image);
+			}
+		}
+
+		// Some packagers leave the spine empty or text-only, fall back to every manifest image
+		if (this.pagePaths.length === 0) {
+			logger.warn('ArchiveManager', `No spine images in ${file.name}, using manifest images`);
+			Array.from(manifest.values())
+				.filter((item) => item.mediaType.startsWith('image/'))
+				.map((item) => item.href)
+				.sort(compareFilenames)
+				.forEach(addPage);
+		}
+
+		logger.info('ArchiveManager', `Opened EPUB: ${file.name} (${this.pagePaths.length} pages)`);
+		return this.pagePaths.map((path, index) => ({ index, filename: path }));
+	}
+
+	async loadPage(page: ComicPage): Promise<Blob> {
+		const path = this.pagePaths[page.index];
+		if (!path) {
+			throw new Error('Page not found in EPUB');
+		}
+
+		const data = await this.readEntry(path);
+		const mediaType = this.mediaTypes.get(path);
+		const type = mediaType?.startsWith('image/') ? mediaType : getImageMimeType(path);
+		return new Blob([data as BlobPart], { type });
+	}
+
+	// Maps the OPF Dublin Core metadata onto ComicInfo
+	async readComicInfo(): Promise<ComicInfo | null> {
+		if (!this.opf) return null;
+
+		const text = (localName: string) => elementsByName(this.opf!, localName)[0]?.textContent?.trim() || undefined;
+		const subjects = elementsByName(this.opf, 'subject')
+			.map((subject) => subject.textContent?.trim() ?? '')
+			.filter(Boolean);
+		const year = text('date')?.match(/^(\d{4})/)?.[1];
+		const spine = elementsByName(this.opf, 'spine')[0];
+
+		const info: ComicInfo = {
+			title: text('title'),
+			writer: text('creator'),
+			publisher: text('publisher'),
+			summary: text('description'),
+			year: year ? Number(year) : undefined,
+			tags: subjects.length > 0 ? subjects : undefined,
+			readingDirection: spine?.getAttribute('page-progression-direction') === 'rtl' ? 'rtl' : undefined
+		};
+
+		return Object.values(info).some((value) => value !== undefined) ? info : null;
+	}
+
+	cleanup(): void {
+		this.file = null;
+		this.entries.clear();
+		this.pagePaths = [];
+		this.mediaTypes.clear();
+		this.opf = null;
+	}
+
+	private async findPackagePath(): Promise<string> {
+		if (this.entries.has('META-INF/container.xml')) {
+			const container = parseXml(await this.readText('META-INF/container.xml'));
+			const path = elementsByName(container, 'rootfile')[0]?.getAttribute('full-path');
+			if (path && this.entries.has(path)) return path;
+		}
+
+		// Broken container.xml, take the first package document we can find
+		const opf = Array.from(this.entries.keys()).find((name) => name.toLowerCase().endsWith('.opf'));
+		if (!opf) throw new Error('Not an EPUB: no package document found');
+		return opf;
+	}
+
+	// Images shown by a spine document, in document order
+	private async findDocumentImages(item: ManifestItem): Promise<string[]> {
+		if (!this.entries.has(item.href)) return [];
+
+		try {
+			const type = item.mediaType === 'image/svg+xml' ? 'image/svg+xml' : 'application/xhtml+xml';
+			const doc = parseXml(await this.readText(item.href), type);
+			const images: string[] = [];
+
+			for (const element of Array.from(doc.querySelectorAll('img, image'))) {
+				const href =
+					element.getAttribute('src') ??
+					element.getAttributeNS(XLINK_NS, 'href') ??
+					element.getAttribute('xlink:href') ??
+					element.getAttribute('href');
+				if (!href || href.startsWith('data:')) continue;
+
+				const path = resolvePath(item.href, href);
+				if (isImageFile(path) || this.mediaTypes.get(path)?.startsWith('image/')) {
+					images.push(path);
+				}
+			}
+			return images;
+		} catch (error) {
+			logger.warn('ArchiveManager', `Failed to read EPUB document ${item.href}`, error);
+			return [];
+		}
+	}
+
+	private async readEntry(path: string): Promise<Uint8Array> {
+		const entry = this.entries.get(path);
+		if (!this.file || !entry) {
+			throw new Error(`Missing EPUB entry: ${path}`);
+		}
+		return readZipEntry(this.file, entry);
+	}
+
+	private async readText(path: string): Promise<string> {
+		return new TextDecoder().decode(await this.readEntry(path));
+	}
+}
@@ -0,0 +1,46 @@
+// ZIP (CBZ), RAR (CBR), 7z (CB7) and TAR (CBT) archives through libarchive.js
+// Listing and extraction run in archive.worker.ts, this side only keeps the page list.
+
+import type { ComicInfo, ComicPage } from '../../../types/comic.js';
+import type { FormatProvider } from '../formatProvider.js';
+import { logger } from '../../services/logger.js';
+import { parseComicInfo } from '../comicInfo.js';
+import { getImageMimeType } from '../imageTypes.js';
+import { ArchiveWorkerClient } from '../archiveWorkerClient.js';
+
+export class LibarchiveProvider implements FormatProvider {
+	private client = new ArchiveWorkerClient();
+	private comicInfoXml: string | undefined;
+
+	async open(file: File): Promise<ComicPage[]> {
+		const { entries, comicInfoXml } = await this.client.list(file);
+		this.comicInfoXml = comicInfoXml;
+		logger.info('ArchiveManager', `Opened archive: ${file.name}, found ${entries.length} image files`);
+
+		return entries.map((entry) => ({ index: entry.index, filename: entry.filename }));
+	}
+
+	async loadPage(page: ComicPage, signal?: AbortSignal): Promise<Blob> {
+		const data = await this.client.extract(page.index, signal);
+		return new Blob([data], { type: getImageMimeType(page.filename) });
+	}
+
+	async readComicInfo(): Promise<ComicInfo | null> {
+		if (!this.comicInfoXml) return null;
+
+		try {
+			const info = parseComicInfo(this.comicInfoXml);
+			logger.info('ArchiveManager', 'Parsed ComicInfo.xml', info);
+			return info;
+		} catch (error) {
+			logger.warn('ArchiveManager', 'Failed to read ComicInfo.xml', error);
+			return null;
+		}
+	}
+
+	cleanup(): void {
+		// Terminating the worker also closes the libarchive worker it spawned
+		this.client.terminate();
+		this.comicInfoXml = undefined;
+	}
+}
@@ -0,0 +1,118 @@
+// PDF comics through pdf.js
+// Every page is rasterised to an image on demand, so the reader can treat it like an archive page.
+
+import type { ComicInfo, ComicPage } from '../../../types/comic.js';
+import type { FormatProvider } from '../formatProvider.js';
+import { logger } from '../../services/logger.js';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Rendered pages are sized for the screen, clamped so huge page boxes don't exhaust memory
+const MIN_RENDER_WIDTH = 1200;
+const MAX_RENDER_WIDTH = 2400;
+const RENDER_QUALITY = 0.92;
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// pdf.js is large and browser-only, load it the first time a PDF is opened
+function loadPdfjs(): Promise<typeof import('pdfjs-dist')> {
+	if (!pdfjsPromise) {
+		pdfjsPromise = Promise.all([
+			import('pdfjs-dist'),
+			import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+		]).then(([pdfjs, worker]) => {
+			pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+			return pdfjs;
+		});
+		pdfjsPromise.catch(() => (pdfjsPromise = null));
+	}
+	return pdfjsPromise;
+}
+
+function getTargetWidth(): number {
+	const screenWidth = typeof window === 'undefined' ? 0 : window.innerWidth * (window.devicePixelRatio || 1);
+	return Math.min(MAX_RENDER_WIDTH, Math.max(MIN_RENDER_WIDTH, Math.round(screenWidth)));
+}
+
+export class PdfProvider implements FormatProvider {
+	private document: PDFDocumentProxy | null = null;
+
+	async open(file: File): Promise<ComicPage[]> {
+		const pdfjs = await loadPdfjs();
+		this.cleanup();
+
+		const data = new Uint8Array(await file.arrayBuffer());
+		this.document = await pdfjs.getDocument({ data }).promise;
+		logger.info('ArchiveManager', `Opened PDF: ${file.name} (${this.document.numPages} pages)`);
+
+		const digits = String(this.document.numPages).length;
+		return Array.from({ length: this.document.numPages }, (_, index) => ({
+			index,
+			filename: `page-${String(index + 1).padStart(digits, '0')}.jpg`
+		}));
+	}
+
+	async loadPage(page: ComicPage): Promise<Blob> {
+		if (!this.document) {
+			throw new Error('No PDF document is open');
+		}
+
+		// pdf.js pages are 1-based
+		const pdfPage = await this.document.getPage(page.index + 1);
+		try {
+			const baseViewport = pdfPage.getViewport({ scale: 1 });
+			const viewport = pdfPage.getViewport({ scale: getTargetWidth() / baseViewport.width });
+
+			const canvas = document.createElement('canvas');
+			canvas.width = Math.ceil(viewport.width);
+			canvas.height = Math.ceil(viewport.height);
+
+			await pdfPage.render({ canvas, viewport }).promise;
+
+			return await new Promise<Blob>((resolve, reject) => {
+				canvas.toBlob(
+					(blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode PDF page'))),
+					'image/jpeg',
+					RENDER_QUALITY
+				);
+			});
+		} finally {
+			pdfPage.cleanup();
+		}
+	}
+
+	// Maps the document information dictionary onto ComicInfo
+	async readComicInfo(): Promise<ComicInfo | null> {
+		if (!this.document) return null;
+
+		try {
+			const { info } = await this.document.getMetadata();
+			const fields = info as Record<string, unknown>;
+			const text = (key: string) => {
+				const value = fields[key];
+				return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+			};
+
+			const comicInfo: ComicInfo = {
+				title: text('Title'),
+				writer: text('Author'),
+				summary: text('Subject'),
+				tags: text('Keywords')
+					?.split(/[,;]/)
+					.map((tag) => tag.trim())
+					.filter(Boolean)
+			};
+
+			return Object.values(comicInfo).some((value) => value !== undefined) ? comicInfo : null;
+		} catch (error) {
+			logger.warn('ArchiveManager', 'Failed to read PDF metadata', error);
+			return null;
+		}
+	}
+
+	cleanup(): void {
+		if (this.document) {
+			this.document.destroy().catch(() => {});
+			this.document = null;
+		}
+	}
+}
@@ -0,0 +1,22 @@
+import type { Filter } from '$lib/store/filterStore';
+import { applyMonochrome } from './monochrome';
+import { applyColorCorrection } from './colorCorrection';
+import { applyVintage } from './vintage';
+import { applyVibrant } from './vibrant';
+
+export function applyFilter(ctx: CanvasRenderingContext2D, filter: Filter): void {
+	switch (filter) {
+		case 'monochrome':
+			applyMonochrome(ctx);
+			break;
+		case 'color-correction':
+			applyColorCorrection(ctx);
+			break;
+		case 'vintage':
+			applyVintage(ctx);
+			break;
+		case 'vibrant':
+			applyVibrant(ctx);
+			break;
+	}
+}
@@ -0,0 +1,323 @@
+// Library Backup Service
+// Exports every library item, stored file and reading progress into one ZIP
+// and restores such a backup into the current database.
+
+import { comicStorage } from '../storage/comicStorage.js';
+import type { Bookmark, ComicBook, FileSystemItem } from '../../types/comic.js';
+import { getZipEntryBlob, readZipEntries, readZipEntry, type ZipEntry } from '../utils/zipReader.js';
+import { ZipWriter } from '../utils/zipWriter.js';
+import type { UploadProgress } from './uploadService.js';
+import { logger } from './logger.js';
+
+export const BACKUP_FORMAT = 'comikaiju-backup';
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const ITEMS_FILE = 'items.json';
+const METADATA_FILE = 'metadata.json';
+const BOOKMARKS_FILE = 'bookmarks.json'; // Optional, older backups don't have it
+const BLOB_PREFIX = 'blobs/';
+// The in-memory export holds the whole archive, above this the browser would run out of memory
+const MAX_IN_MEMORY_BACKUP = 2 * 1024 * 1024 * 1024;
+
+export interface BackupManifest {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	createdAt: string;
+	items: number;
+	blobs: number;
+	metadata: number;
+	bookmarks?: number;
+}
+
+// How to handle comics that have reading progress both locally and in the backup
+export type ProgressConflictMode = 'merge' | 'replace';
+
+export interface BackupImportResult {
+	imported: number;
+	duplicates: number; // Files already in the library, matched by content hash
+	folders: number;
+	progressRestored: number;
+	bookmarks: number;
+	conflicts: number;
+	failed: string[];
+}
+
+export class BackupError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BackupError';
+	}
+}
+
+function encodeJson(value: unknown): Uint8Array {
+	return new TextEncoder().encode(JSON.stringify(value));
+}
+
+function progress(filename: string, current: number, total: number): UploadProgress {
+	return {
+		filename,
+		current,
+		total,
+		percentage: total > 0 ? Math.round((current / total) * 100) : 100
+	};
+}
+
+// Newest reading position wins; per-comic settings the local copy lacks are taken from the backup
+function mergeProgress(local: ComicBook, incoming: ComicBook): ComicBook {
+	const localTime = new Date(local.lastRead).getTime() || 0;
+	const incomingTime = new Date(incoming.lastRead).getTime() || 0;
+	const newer = incomingTime > localTime ? incoming : local;
+
+	return {
+		...incoming,
+		...local,
+		currentPage: newer.currentPage,
+		lastRead: new Date(Math.max(localTime, incomingTime))
+	};
+}
+
+export class BackupService {
+	private isCancelled = false;
+
+	cancel() {
+		this.isCancelled = true;
+	}
+
+	// Streams the backup archive through `write`, one stored file at a time
+	async exportLibrary(
+		write: (chunk: Uint8Array) => Promise<void>,
+		onProgress: (p: UploadProgress) => void
+	): Promise<BackupManifest> {
+		this.isCancelled = false;
+
+		const [allItems, allMetadata, allBookmarks] = await Promise.all([
+			comicStorage.getAllItems(),
+			comicStorage.getAllComicMetadata(),
+			comicStorage.getAllBookmarks()
+		]);
+		// Linked folders stay on this device, their files were never copied into the library
+		const linkedIds = new Set(allItems.filter((item) => item.source).map((item) => item.id));
+		const items = allItems.filter((item) => !linkedIds.has(item.id));
+		const metadata = allMetadata.filter((comic) => !linkedIds.has(comic.id));
+		const bookmarks = allBookmarks.filter((bookmark) => !linkedIds.has(bookmark.comicId));
+		const hashes = [...new Set(items.map((item) => item.contentHash).filter((hash): hash is string => !!hash))];
+
+		const manifest: BackupManifest = {
+			format: BACKUP_FORMAT,
+			version: BACKUP_VERSION,
+			createdAt: new Date().toISOString(),
+			items: items.length,
+			blobs: hashes.length,
+			metadata: metadata.length,
+			bookmarks: bookmarks.length
+		};
+
+		// Writes ZIP64 records where needed, so libraries over 4 GB back up and restore too
+		const zip = new ZipWriter(write);
+		const addJson = (name: string, value: unknown) => zip.addFile(name, encodeJson(value));
+
+		await addJson(MANIFEST_FILE, manifest);
+		await addJson(ITEMS_FILE, items);
+		await addJson(METADATA_FILE, metadata);
+		await addJson(BOOKMARKS_FILE, bookmarks);
+
+		const namesByHash = new Map(items.map((item) => [item.contentHash, item.name]));
+		for (let i = 0; i < hashes.length; i++) {
+			if (this.isCancelled) throw new BackupError('Backup cancelled');
+
+			const hash = hashes[i];
+			const data = await comicStorage.getBlob(hash);
+			if (!data) {
+				logger.warn('BackupService', `Blob missing for ${namesByHash.get(hash)}, skipping`);
+				continue;
+			}
+
+			// Comic archives are already compressed. Stream the stored chunks so
+			// large files never sit in memory whole.
+			await zip.addStream(BLOB_PREFIX + hash, data.stream());
+
+			onProgress(progress(namesByHash.get(hash) ?? hash, i + 1, hashes.length));
+		}
+
+		await zip.end();
+
+		logger.info('BackupService', `Exported ${items.length} items, ${hashes.length} files`);
+		return manifest;
+	}
+
+	// Fallback for browsers that can't stream to a file: builds the whole archive in memory,
+	// so it refuses libraries past MAX_IN_MEMORY_BACKUP instead of crashing the tab
+	async exportLibraryToBlob(onProgress: (p: UploadProgress) => void): Promise<Blob> {
+		const parts: BlobPart[] = [];
+		let size = 0;
+		await this.exportLibrary(async (chunk) => {
+			size += chunk.length;
+			if (size > MAX_IN_MEMORY_BACKUP) {
+				throw new BackupError('The library is too large to back up in this browser. Use a browser that can save directly to a file, such as Chrome or Edge.');
+			}
+			parts.push(chunk as BlobPart);
+		}, onProgress);
+		return new Blob(parts, { type: 'application/zip' });
+	}
+
+	async importLibrary(
+		file: Blob,
+		onProgress: (p: UploadProgress) => void,
+		resolveConflicts: (count: number) => Promise<ProgressConflictMode>
+	): Promise<BackupImportResult> {
+		this.isCancelled = false;
+
+		let entries: ZipEntry[];
+		try {
+			entries = await readZipEntries(file);
+		} catch (error) {
+			throw new BackupError(`Not a valid backup file: ${error instanceof Error ? error.message : error}`);
+		}
+		const entriesByName = new Map(entries.map((entry) => [entry.name, entry]));
+
+		const readJson = async <T>(name: string): Promise<T> => {
+			const entry = entriesByName.get(name);
+			if (!entry) throw new BackupError(`Backup is missing ${name}`);
+			return JSON.parse(new TextDecoder().decode(await readZipEntry(file, entry))) as T;
+		};
+
+		const manifest = await readJson<BackupManifest>(MANIFEST_FILE);
+		if (manifest.format !== BACKUP_FORMAT) {
+			throw new BackupError('This file is not a ComiKaiju backup');
+		}
+		if (manifest.version > BACKUP_VERSION) {
+			throw new BackupError(`Backup version ${manifest.version} is newer than this app supports`);
+		}
+
+		const items = await readJson<FileSystemItem[]>(ITEMS_FILE);
+		const metadata = await readJson<ComicBook[]>(METADATA_FILE);
+		const bookmarks = entriesByName.has(BOOKMARKS_FILE) ? await readJson<Bookmark[]>(BOOKMARKS_FILE) : [];
+
+		const result: BackupImportResult = {
+			imported: 0,
+			duplicates: 0,
+			folders: 0,
+			progressRestored: 0,
+			bookmarks: 0,
+			conflicts: 0,
+			failed: []
+		};
+
+		const existing = await comicStorage.getAllItems();
+		const existingIds = new Set(existing.map((item) => item.id));
+		const localByHash = new Map(existing.filter((item) => item.contentHash).map((item) => [item.contentHash!, item]));
+
+		// Backup item id -> id in this library
+		const idMap = new Map<string, string>();
+		const claimId = (id: string) => {
+			const localId = existingIds.has(id) ? crypto.randomUUID() : id;
+			existingIds.add(localId);
+			idMap.set(id, localId);
+			return localId;
+		};
+
+		// Folders, parents before children
+		const folders = items.filter((item) => item.type === 'folder');
+		const backupFolderIds = new Set(folders.map((folder) => folder.id));
+		const existingFolderIds = new Set(existing.filter((item) => item.type === 'folder').map((item) => item.id));
+		let remaining = folders;
+		while (remaining.length > 0) {
+			const ready = remaining.filter((folder) => !folder.parentId || !backupFolderIds.has(folder.parentId) || idMap.has(folder.parentId));
+			// Parent chains that never resolve (cycles) go to the root
+			const batch = ready.length > 0 ? ready : remaining;
+
+			for (const folder of batch) {
+				if (existingFolderIds.has(folder.id)) {
+					idMap.set(folder.id, folder.id); // Same folder, restored before
+					continue;
+				}
+				const parentId = (folder.parentId && idMap.get(folder.parentId)) || null;
+				await comicStorage.restoreItem({ ...folder, id: claimId(folder.id), parentId });
+				result.folders++;
+			}
+			remaining = remaining.filter((folder) => !batch.includes(folder));
+		}
+
+		// Files
+		const files = items.filter((item) => item.type !== 'folder' && item.contentHash);
+		for (let i = 0; i < files.length; i++) {
+			if (this.isCancelled) throw new BackupError('Restore cancelled');
+
+			const item = files[i];
+			const hash = item.contentHash!;
+			try {
+				const duplicate = localByHash.get(hash);
+				if (duplicate) {
+					idMap.set(item.id, duplicate.id);
+					result.duplicates++;
+				} else {
+					const entry = entriesByName.get(BLOB_PREFIX + hash);
+					if (!entry) throw new BackupError('file data missing from backup');
+
+					// Stored comics stay slices of the backup file, restoreItem reads them chunk by chunk
+					const data = await getZipEntryBlob(file, entry);
+					const restored: FileSystemItem = {
+						...item,
+						id: claimId(item.id),
+						parentId: (item.parentId && idMap.get(item.parentId)) || null
+					};
+					await comicStorage.restoreItem(restored, data);
+					localByHash.set(hash, restored);
+					result.imported++;
+				}
+			} catch (error) {
+				logger.error('BackupService', `Failed to restore ${item.name}`, error);
+				result.failed.push(item.name);
+			}
+
+			onProgress(progress(item.name, i + 1, files.length));
+		}
+
+		// Reading progress and per-comic settings
+		const incoming = metadata
+			.filter((comic) => idMap.has(comic.id))
+			.map((comic) => ({ ...comic, id: idMap.get(comic.id)!, lastRead: new Date(comic.lastRead) }));
+
+		const localMetadata = new Map<string, ComicBook>();
+		let conflicts = 0;
+		for (const comic of incoming) {
+			const local = await comicStorage.getComicMetadata(comic.id);
+			if (!local) continue;
+			localMetadata.set(comic.id, local);
+			if (local.currentPage !== comic.currentPage) conflicts++;
+		}
+
+		result.conflicts = conflicts;
+		const mode = conflicts > 0 ? await resolveConflicts(conflicts) : 'merge';
+
+		for (const comic of incoming) {
+			const local = localMetadata.get(comic.id);
+			await comicStorage.saveComicMetadata(local && mode === 'merge' ? mergeProgress(local, comic) : comic);
+			result.progressRestored++;
+		}
+
+		// Bookmarks, skipping pages that are already bookmarked here
+		const localBookmarks = new Map<string, Set<number>>();
+		for (const bookmark of bookmarks) {
+			const comicId = idMap.get(bookmark.comicId);
+			if (!comicId) continue;
+
+			if (!localBookmarks.has(comicId)) {
+				const existingPages = (await comicStorage.getBookmarks(comicId)).map((b) => b.pageIndex);
+				localBookmarks.set(comicId, new Set(existingPages));
+			}
+			const pages = localBookmarks.get(comicId)!;
+			if (pages.has(bookmark.pageIndex)) continue;
+
+			await comicStorage.saveBookmark({ ...bookmark, id: crypto.randomUUID(), comicId });
+			pages.add(bookmark.pageIndex);
+			result.bookmarks++;
+		}
+
+		logger.info('BackupService', 'Backup restored', result);
+		return result;
+	}
+}
+
+export const backupService = new BackupService();
@@ -1,9 +1,11 @@
 import { goto } from '$app/navigation';
 import ArchiveManager from '$lib/archive/archiveManager.js';
+import { stripComicExtension } from '$lib/archive/formatProvider.js';
+import { FormatError } from '$lib/archive/formatDetection.js';
 import { comicStorage } from '$lib/storage/comicStorage.js';
 import { setComic, setLoading, setError, clearError } from '$lib/store/session.js';
 import { logger } from './logger.js';
-import type { ComicBook } from '../../types/comic.js';
+import type { ComicBook, ComicInfo, ComicPage } from '../../types/comic.js';
 
 let archiveManager: ArchiveManager | null = null;
 
@@ -70,6 +72,52 @@ async function createThumbnail(blob: Blob): Promise<string> {
 	});
 }
 
+export interface ComicAnalysis {
+	pages: ComicPage[]; // Serializable, without blobs
+	thumbnail?: string;
+	info: ComicInfo | null;
+}
+
+// Opens an archive to get what the library stores about a comic: pages, cover thumbnail
+// and embedded metadata. The thumbnail is best effort, an unreadable cover doesn't fail it.
+export async function analyzeComic(manager: ArchiveManager, file: File): Promise<ComicAnalysis> {
+	const pages = await manager.openArchive(file);
+	logger.info('ComicProcessor', `Loaded ${pages.length} pages from archive`);
+
+	let thumbnail: string | undefined;
+	try {
+		await manager.loadPage(pages[0]);
+		if (pages[0].blob) {
+			logger.info('ComicProcessor', 'Creating thumbnail...');
+			thumbnail = await createThumbnail(pages[0].blob);
+			logger.info('ComicProcessor', 'Thumbnail created successfully');
+		}
+	} catch (err) {
+		logger.error('ComicProcessor', 'Failed to create thumbnail', err);
+	} finally {
+		if (pages[0].url) URL.revokeObjectURL(pages[0].url);
+	}
+
+	const info = await manager.readComicInfo();
+	return { pages: cleanPages(pages), thumbnail, info };
+}
+
+// Reader metadata for a freshly imported comic
+export function createComicRecord(id: string, file: File, analysis: ComicAnalysis): ComicBook {
+	return {
+		id,
+		title: stripComicExtension(file.name),
+		filename: file.name,
+		pages: analysis.pages,
+		currentPage: 0,
+		totalPages: analysis.pages.length,
+		lastRead: new Date(),
+		coverThumbnail: analysis.thumbnail,
+		info: analysis.info ?? undefined,
+		readingDirection: analysis.info?.readingDirection
+	};
+}
+
 export async function handleFile(file: File, loadComics: () => Promise<void>) {
 	if (!archiveManager) {
 		archiveManager = new ArchiveManager();
@@ -77,7 +125,7 @@ export async function handleFile(file: File, loadComics: () => Promise<void>) {
 
 	const isSupported = await archiveManager.isSupported(file);
 	if (!isSupported) {
-		setError('Please select a CBZ, ZIP, CBR, or RAR file.');
+		setError('Please select a CBZ, CBR, CB7, CBT, PDF or EPUB file.', 'error', 'FORMAT_UNSUPPORTED');
 		return;
 	}
 
@@ -86,17 +134,23 @@ export async function handleFile(file: File, loadComics: () => Promise<void>) {
 
 	try {
         // 0. Check for duplicate before processing
-        const existingItem = await comicStorage.findDuplicate(file);
+        const existingItem = await comicStorage.findDuplicate(file, {
+            onProgress: (bytes, total) => {
+                if (total > 0) setLoading(true, `Checking library... ${Math.round((bytes / total) * 100)}%`);
+            }
+        });
+        setLoading(true, 'Processing archive...');
         if (existingItem) {
             logger.info('ComicProcessor', `Duplicate found: ${existingItem.name}, skipping processing.`);
             
             let comic = await comicStorage.getComicMetadata(existingItem.id);
             if (comic) {
-                // Determine page count if not set (legacy)
-                if (!comic.totalPages) {
+                // Determine pages if not set (legacy, or progress imported before first open)
+                if (!comic.totalPages || !comic.pages?.length) {
                      const pages = await archiveManager.openArchive(file);
                      comic.totalPages = pages.length;
                      comic.pages = cleanPages(pages);
+                     comic.info = (await archiveManager.readComicInfo()) ?? comic.info;
                      await comicStorage.saveComicMetadata(comic);
                 }
 
@@ -114,47 +168,18 @@ export async function handleFile(file: File, loadComics: () => Promise<void>) {
         }
 
 		logger.info('ComicProcessor', 'New comic, processing...');
-		const pages = await archiveManager.openArchive(file);
-		logger.info('ComicProcessor', `Loaded ${pages.length} pages from archive`);
-
-		if (pages.length === 0) {
-			throw new Error('No images found in archive. The file may be corrupted or use an unsupported RAR version.');
-		}
-
-		let thumbnail: string | undefined;
-		if (pages.length > 0) {
-			try {
-				await archiveManager.loadPage(pages[0]);
-				if (pages[0].blob) {
-					logger.info('ComicProcessor', 'Creating thumbnail...');
-					thumbnail = await createThumbnail(pages[0].blob);
-					logger.info('ComicProcessor', 'Thumbnail created successfully');
-				}
-			} catch (err) {
-				logger.error('ComicProcessor', 'Failed to create thumbnail', err);
-			}
-		}
+		const analysis = await analyzeComic(archiveManager, file);
 
-		const cleanedPages = cleanPages(pages);
-		
 		// 1. Save File to File System (Root) - This handles the physical BLOB and Deduplication
-		const fsItem = await comicStorage.saveFile(file, { thumbnail });
+		const { item: fsItem, duplicate } = await comicStorage.saveFile(file, { thumbnail: analysis.thumbnail });
 		logger.info('ComicProcessor', `Comic saved to FileSystem: ${fsItem.id}`);
 
-		// 2. Prepare Comic Metadata for Reader
-		const comic: ComicBook = {
-			id: fsItem.id,
-			title: file.name.replace(/\.(cbz|zip|cbr|rar)$/i, ''),
-			filename: file.name,
-			pages: cleanedPages,
-			currentPage: 0,
-			totalPages: pages.length,
-			lastRead: new Date(),
-			coverThumbnail: thumbnail
-		};
+		// 2. Prepare Comic Metadata for Reader, an import saved meanwhile keeps its progress
+		const existing = duplicate ? await comicStorage.getComicMetadata(fsItem.id) : null;
+		const comic = existing?.pages?.length ? existing : createComicRecord(fsItem.id, file, analysis);
 
 		// 3. Save Metadata for Reading Progress
-		await comicStorage.saveComicMetadata(comic);
+		if (comic !== existing) await comicStorage.saveComicMetadata(comic);
 
 		await loadComics();
 
@@ -164,8 +189,14 @@ export async function handleFile(file: File, loadComics: () => Promise<void>) {
 
 	} catch (error) {
 		logger.error('ComicProcessor', 'Failed to process file', error);
-		setError(error instanceof Error ? error.message : 'Failed to process file');
+		setError(
+			error instanceof Error ? error.message : 'Failed to process file',
+			'error',
+			error instanceof FormatError ? error.code : undefined
+		);
 	} finally {
+		// The reader opens the file itself, don't keep a worker holding it here
+		archiveManager.cleanup();
 		setLoading(false);
 	}
 }
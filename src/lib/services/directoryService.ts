@@ -1,16 +1,36 @@
 import { comicStorage } from '../storage/comicStorage';
 import { logger } from './logger';
+import { isSupportedFilename, stripComicExtension } from '../archive/formatProvider';
+import { getParentSegments, walkDirectoryHandle } from '../utils/directoryWalker';
+import { calculateFingerprint } from '../utils/fingerprint';
+import { writeBack } from './writeBackService';
+import type { FileSystemItem, LinkedFolder } from '../../types/comic';
 
-const SETTING_KEY = 'comics-folder';
+// Single folder handle stored before linked folders existed
+const LEGACY_SETTING_KEY = 'comics-folder';
+// Progress for files of that folder was kept under this id prefix plus the file name
+const LEGACY_ID_PREFIX = 'local-';
 
-export interface DirectoryFile {
-	handle: FileSystemFileHandle;
-	name: string;
+export interface RescanResult {
+	added: number;
+	removed: number;
+	renamed: number; // Renamed or moved, matched by fingerprint
+	modified: number;
+	unchanged: number;
+}
+
+interface ChangedFile {
+	path: string;
+	file: File;
+	existing?: FileSystemItem; // Indexed at the same path before
 }
 
 class DirectoryService {
-	// 1. Pick and Store Directory Handle
-	async openComicsFolder(): Promise<FileSystemDirectoryHandle | null> {
+	private migration: Promise<void> | null = null;
+	private scans = new Map<string, Promise<RescanResult>>();
+
+	// 1. Pick a folder and index it into the library
+	async linkFolder(): Promise<LinkedFolder | null> {
 		try {
 			// Check if API is supported
 			if (!('showDirectoryPicker' in window)) {
@@ -23,48 +43,53 @@ class DirectoryService {
 				mode: 'read'
 			});
 
-			// Store the handle in IndexedDB for next time
-			await comicStorage.saveSetting(SETTING_KEY, handle);
-			
-			logger.info('DirectoryService', `Directory handle saved: ${handle.name}`);
-			return handle;
+			// Linking the same folder twice rescans it instead
+			for (const folder of await this.getLinkedFolders()) {
+				if (await folder.handle.isSameEntry(handle)) {
+					await this.rescan(folder);
+					return folder;
+				}
+			}
+
+			const folder = await this.createLinkedFolder(handle);
+			logger.info('DirectoryService', `Linked folder: ${handle.name}`);
+			await this.rescan(folder);
+			return folder;
 		} catch (err: any) {
 			if (err.name === 'AbortError') {
 				// User cancelled
 				return null;
 			}
-			logger.error('DirectoryService', 'Failed to open directory', err);
+			logger.error('DirectoryService', 'Failed to link directory', err);
 			throw err;
 		}
 	}
 
-	// 2. Re-verifying Access on Reload
-	async getStoredFolder(): Promise<FileSystemDirectoryHandle | null> {
-		try {
-			const handle = await comicStorage.getSetting<FileSystemDirectoryHandle>(SETTING_KEY);
-			
-			if (!handle) return null;
-
-			// Check if we already have permission
-			const permission = await handle.queryPermission({ mode: 'read' });
-			if (permission === 'granted') {
-				return handle;
-			}
+	async getLinkedFolders(): Promise<LinkedFolder[]> {
+		this.migration ??= this.migrateLegacyFolder().catch((err) => {
+			logger.error('DirectoryService', 'Failed to migrate stored folder', err);
+		});
+		await this.migration;
+		return comicStorage.getLinkedFolders();
+	}
 
-			// If prompt needed, we can't request it here automatically without user gesture usually,
-			// but we can return the handle and let the UI trigger requestPermission.
-			// However, checking strictly:
-			if (permission === 'prompt') {
-				return handle; 
-			}
+	// Removes the folder and its comics from the library, nothing is deleted on disk
+	async unlinkFolder(id: string): Promise<void> {
+		await comicStorage.deleteLinkedFolder(id);
+		logger.info('DirectoryService', `Unlinked folder ${id}`);
+	}
 
-			return null;
+	// 2. Re-verifying Access on Reload
+	async hasPermission(folder: LinkedFolder): Promise<boolean> {
+		try {
+			return (await folder.handle.queryPermission({ mode: 'read' })) === 'granted';
 		} catch (err) {
-			logger.error('DirectoryService', 'Failed to retrieve stored folder', err);
-			return null;
+			logger.error('DirectoryService', 'Failed to query permission', err);
+			return false;
 		}
 	}
 
+	// Needs a user gesture, browsers forget folder access between sessions
 	async requestPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
 		try {
 			const permission = await handle.requestPermission({ mode: 'read' });
@@ -75,26 +100,214 @@ class DirectoryService {
 		}
 	}
 
-	// 3. Reading Files (Comic Images/Archives)
-	async listComics(directoryHandle: FileSystemDirectoryHandle): Promise<DirectoryFile[]> {
-		const files: DirectoryFile[] = [];
-		try {
-			for await (const entry of directoryHandle.values()) {
-				if (entry.kind === 'file') {
-					const name = entry.name.toLowerCase();
-					if (name.endsWith('.cbz') || name.endsWith('.cbr') || name.endsWith('.zip') || name.endsWith('.rar')) {
-						files.push({
-							handle: entry as FileSystemFileHandle,
-							name: entry.name
-						});
-					}
+	// 3. Keeping the index in line with the disk
+	// Rescans every folder the page may read without asking
+	async rescanAll(): Promise<RescanResult[]> {
+		const results: RescanResult[] = [];
+		for (const folder of await this.getLinkedFolders()) {
+			if (!(await this.hasPermission(folder))) continue;
+			try {
+				results.push(await this.rescan(folder));
+			} catch (err) {
+				logger.error('DirectoryService', `Failed to rescan ${folder.name}`, err);
+			}
+		}
+		return results;
+	}
+
+	rescan(folder: LinkedFolder): Promise<RescanResult> {
+		// One scan per folder at a time, overlapping scans would both add the new files
+		let scan = this.scans.get(folder.id);
+		if (!scan) {
+			scan = this.scanFolder(folder).finally(() => this.scans.delete(folder.id));
+			this.scans.set(folder.id, scan);
+		}
+		return scan;
+	}
+
+	private async scanFolder(folder: LinkedFolder): Promise<RescanResult> {
+		const result: RescanResult = { added: 0, removed: 0, renamed: 0, modified: 0, unchanged: 0 };
+		// Files deleted in the library stay on disk until their undo window closes
+		await writeBack.finishPendingDeletes(folder);
+		const found = (await walkDirectoryHandle(folder.handle, { filter: isSupportedFilename })).filter(
+			({ path }) => !writeBack.isPendingDelete(folder.id, path)
+		);
+		const indexed = await comicStorage.getLinkedItems(folder.id);
+
+		const filesByPath = new Map<string, FileSystemItem>();
+		const folderIds = new Map<string, string>();
+		for (const item of indexed) {
+			if (item.type === 'folder') folderIds.set(item.source!.path, item.id);
+			else filesByPath.set(item.source!.path, item);
+		}
+
+		// Size and modification time unchanged means the content is too, skip reading it
+		const changed: ChangedFile[] = [];
+		const present = new Set<string>();
+		for (const { path, handle } of found) {
+			const file = await handle.getFile();
+			const existing = filesByPath.get(path);
+			if (existing && existing.size === file.size && existing.source!.lastModified === file.lastModified) {
+				present.add(existing.id);
+				result.unchanged++;
+			} else {
+				if (existing) present.add(existing.id);
+				changed.push({ path, file, existing });
+			}
+		}
+
+		// Files missing from their indexed path are either gone or reappear elsewhere
+		const missingByFingerprint = new Map<string, FileSystemItem[]>();
+		for (const item of filesByPath.values()) {
+			if (present.has(item.id) || !item.fingerprint) continue;
+			const matches = missingByFingerprint.get(item.fingerprint) ?? [];
+			matches.push(item);
+			missingByFingerprint.set(item.fingerprint, matches);
+		}
+
+		const now = Date.now();
+		const saves: FileSystemItem[] = [];
+		const resets: string[] = [];
+		const added: FileSystemItem[] = [];
+		const renamed: FileSystemItem[] = [];
+
+		const resolveFolder = (segments: string[]): string => {
+			const path = segments.join('/');
+			const id = folderIds.get(path);
+			if (id) return id;
+
+			const folderItem: FileSystemItem = {
+				id: crypto.randomUUID(),
+				name: segments[segments.length - 1],
+				type: 'folder',
+				parentId: resolveFolder(segments.slice(0, -1)),
+				size: 0,
+				mimeType: 'inode/directory',
+				source: { folderId: folder.id, path },
+				createdAt: now,
+				updatedAt: now
+			};
+			folderIds.set(path, folderItem.id);
+			saves.push(folderItem);
+			return folderItem.id;
+		};
+		folderIds.set('', folder.id);
+
+		for (const { path, file, existing } of changed) {
+			const fingerprint = await calculateFingerprint(file);
+			const parentId = resolveFolder(getParentSegments(path));
+			const source = { folderId: folder.id, path, lastModified: file.lastModified };
+
+			if (existing) {
+				const updated: FileSystemItem = { ...existing, size: file.size, fingerprint, source };
+				// Touched but identical content keeps its pages and thumbnail
+				if (existing.fingerprint !== fingerprint) {
+					resets.push(existing.id);
+					updated.thumbnail = undefined;
+					updated.updatedAt = now;
+					result.modified++;
+				} else {
+					result.unchanged++;
 				}
+				saves.push(updated);
+				continue;
 			}
-		} catch (err) {
-			logger.error('DirectoryService', 'Failed to list comics', err);
-			throw err;
+
+			const moved = missingByFingerprint.get(fingerprint)?.shift();
+			if (moved) {
+				// Same id, so progress, bookmarks and cached pages carry over
+				present.add(moved.id);
+				const updated: FileSystemItem = { ...moved, name: file.name, parentId, size: file.size, source, updatedAt: now };
+				saves.push(updated);
+				renamed.push(updated);
+				result.renamed++;
+				continue;
+			}
+
+			const item: FileSystemItem = {
+				id: crypto.randomUUID(),
+				name: file.name,
+				type: 'file',
+				parentId,
+				size: file.size,
+				mimeType: file.type,
+				fingerprint,
+				source,
+				createdAt: now,
+				updatedAt: now
+			};
+			saves.push(item);
+			added.push(item);
+			result.added++;
+		}
+
+		await comicStorage.saveItems(saves);
+		for (const id of resets) await comicStorage.resetComicContent(id);
+		for (const item of added) {
+			await comicStorage.relinkComicMetadata(LEGACY_ID_PREFIX + item.name, item.id);
+		}
+		for (const item of renamed) {
+			const comic = await comicStorage.getComicMetadata(item.id);
+			if (comic && comic.filename !== item.name) {
+				await comicStorage.saveComicMetadata({ ...comic, title: stripComicExtension(item.name), filename: item.name });
+			}
+		}
+
+		// Moves are saved, so deleting what is left can't take a moved file with it
+		for (const item of filesByPath.values()) {
+			if (present.has(item.id)) continue;
+			await comicStorage.deleteItem(item.id);
+			result.removed++;
+		}
+		// Subfolders without comics left go too, the linked folder's own item stays
+		for (const [path, id] of folderIds) {
+			if (path && !this.hasFilesBelow(path, found)) await comicStorage.deleteItem(id);
+		}
+
+		await comicStorage.saveLinkedFolder({ ...folder, lastScannedAt: now });
+		logger.info('DirectoryService', `Rescanned ${folder.name}`, result);
+		return result;
+	}
+
+	private hasFilesBelow(path: string, found: { path: string }[]): boolean {
+		return found.some((file) => file.path.startsWith(`${path}/`));
+	}
+
+	private async createLinkedFolder(handle: FileSystemDirectoryHandle): Promise<LinkedFolder> {
+		const now = Date.now();
+		const folder: LinkedFolder = { id: crypto.randomUUID(), name: handle.name, handle, createdAt: now };
+
+		// The library lists the folder's contents under an item with the same id
+		await comicStorage.saveItems([
+			{
+				id: folder.id,
+				name: handle.name,
+				type: 'folder',
+				parentId: null,
+				size: 0,
+				mimeType: 'inode/directory',
+				source: { folderId: folder.id, path: '' },
+				createdAt: now,
+				updatedAt: now
+			}
+		]);
+		await comicStorage.saveLinkedFolder(folder);
+		return folder;
+	}
+
+	// Turns the single stored folder of older versions into a linked folder. Its progress
+	// moves over on the first scan, which needs the user to grant access again.
+	private async migrateLegacyFolder(): Promise<void> {
+		const handle = await comicStorage.getSetting<FileSystemDirectoryHandle>(LEGACY_SETTING_KEY);
+		if (!handle) return;
+
+		const linked = await comicStorage.getLinkedFolders();
+		const alreadyLinked = await Promise.all(linked.map((folder) => folder.handle.isSameEntry(handle)));
+		if (!alreadyLinked.some(Boolean)) {
+			await this.createLinkedFolder(handle);
+			logger.info('DirectoryService', `Migrated stored folder: ${handle.name}`);
 		}
-		return files;
+		await comicStorage.deleteSetting(LEGACY_SETTING_KEY);
 	}
 }
 
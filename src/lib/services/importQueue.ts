@@ -0,0 +1,263 @@
+// Import Queue
+// Imports files into the library in the background, a few at a time, with a result per file.
+// Jobs and their files are kept in IndexedDB so a reload picks the queue up where it stopped.
+
+import ArchiveManager from '../archive/archiveManager.js';
+import { comicStorage } from '../storage/comicStorage.js';
+import { calculateHash } from '../utils/hash.js';
+import { analyzeComic, createComicRecord } from './comicProcessor.js';
+import { logger } from './logger.js';
+import type { ImportJob, ImportJobStatus } from '../../types/comic.js';
+
+const CONCURRENCY_KEY = 'import-concurrency';
+const PAUSED_KEY = 'import-paused';
+const DEFAULT_CONCURRENCY = 2;
+export const MAX_IMPORT_CONCURRENCY = 4;
+
+// Share of a job's progress spent hashing, the rest is opening the archive and saving
+const HASH_PROGRESS_SHARE = 0.5;
+
+type AbortReason = 'pause' | 'cancel';
+
+export type ImportQueueListener = () => void;
+
+export function isFinishedJob(job: ImportJob): boolean {
+	return job.status !== 'queued' && job.status !== 'running';
+}
+
+class ImportQueue {
+	private jobs: ImportJob[] = [];
+	private initPromise: Promise<void> | null = null;
+	private concurrency = DEFAULT_CONCURRENCY;
+	private paused = false;
+	private running = new Map<string, AbortController>();
+	private listeners = new Set<ImportQueueListener>();
+
+	init(): Promise<void> {
+		if (!this.initPromise) {
+			this.initPromise = this.restore().catch((error) => {
+				this.initPromise = null;
+				throw error;
+			});
+		}
+		return this.initPromise;
+	}
+
+	get isPaused(): boolean {
+		return this.paused;
+	}
+
+	get maxParallel(): number {
+		return this.concurrency;
+	}
+
+	getJobs(): ImportJob[] {
+		return this.jobs.map((job) => ({ ...job }));
+	}
+
+	onChange(listener: ImportQueueListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	async enqueue(files: File[], parentId: string | null = null): Promise<ImportJob[]> {
+		await this.init();
+
+		const now = Date.now();
+		const added: ImportJob[] = files.map((file, i) => ({
+			id: crypto.randomUUID(),
+			name: file.name,
+			size: file.size,
+			file,
+			parentId,
+			status: 'queued',
+			attempts: 0,
+			// Keep the selection order when several files share a timestamp
+			createdAt: now + i,
+			updatedAt: now
+		}));
+
+		// Storing the File copies it into IndexedDB, which is what lets the queue survive a reload
+		for (const job of added) {
+			await comicStorage.saveImportJob(job);
+			this.jobs.push(job);
+		}
+
+		logger.info('ImportQueue', `Queued ${added.length} files`);
+		this.notify();
+		this.pump();
+		return added.map((job) => ({ ...job }));
+	}
+
+	async pause(): Promise<void> {
+		await this.init();
+		this.paused = true;
+		await comicStorage.saveSetting(PAUSED_KEY, true);
+		// Running jobs go back to the queue and restart on resume
+		for (const controller of this.running.values()) controller.abort('pause' satisfies AbortReason);
+		this.notify();
+	}
+
+	async resume(): Promise<void> {
+		await this.init();
+		this.paused = false;
+		await comicStorage.saveSetting(PAUSED_KEY, false);
+		this.notify();
+		this.pump();
+	}
+
+	async setConcurrency(value: number): Promise<void> {
+		await this.init();
+		this.concurrency = Math.min(MAX_IMPORT_CONCURRENCY, Math.max(1, Math.round(value)));
+		await comicStorage.saveSetting(CONCURRENCY_KEY, this.concurrency);
+		this.notify();
+		this.pump();
+	}
+
+	// Requeues failed and cancelled jobs, all of them or the given ones
+	async retry(ids?: string[]): Promise<void> {
+		await this.init();
+		const retryable = this.jobs.filter(
+			(job) => (job.status === 'failed' || job.status === 'cancelled') && job.file && (!ids || ids.includes(job.id))
+		);
+		for (const job of retryable) {
+			await this.update(job, { status: 'queued', error: undefined, progress: undefined });
+		}
+		this.pump();
+	}
+
+	async cancel(ids: string[]): Promise<void> {
+		await this.init();
+		for (const job of this.jobs.filter((job) => ids.includes(job.id))) {
+			if (job.status === 'queued') {
+				await this.update(job, { status: 'cancelled' });
+			} else if (job.status === 'running') {
+				this.running.get(job.id)?.abort('cancel' satisfies AbortReason);
+			}
+		}
+	}
+
+	// Forgets finished jobs, including failed ones and the file copies they keep for retrying
+	async clearFinished(): Promise<void> {
+		await this.init();
+		const finished = this.jobs.filter(isFinishedJob);
+		await comicStorage.deleteImportJobs(finished.map((job) => job.id));
+		this.jobs = this.jobs.filter((job) => !isFinishedJob(job));
+		this.notify();
+	}
+
+	private async restore(): Promise<void> {
+		const [jobs, concurrency, paused] = await Promise.all([
+			comicStorage.getImportJobs(),
+			comicStorage.getSetting<number>(CONCURRENCY_KEY),
+			comicStorage.getSetting<boolean>(PAUSED_KEY)
+		]);
+		this.concurrency = concurrency ?? DEFAULT_CONCURRENCY;
+		this.paused = paused ?? false;
+		this.jobs = jobs;
+
+		// Jobs that were running when the page went away start over
+		for (const job of this.jobs.filter((job) => job.status === 'running')) {
+			await this.update(job, { status: 'queued', progress: undefined });
+		}
+
+		const pending = this.jobs.filter((job) => job.status === 'queued').length;
+		if (pending > 0) logger.info('ImportQueue', `Resuming ${pending} queued imports`);
+		this.notify();
+		this.pump();
+	}
+
+	private pump(): void {
+		while (!this.paused && this.running.size < this.concurrency) {
+			const next = this.jobs.find((job) => job.status === 'queued' && !this.running.has(job.id));
+			if (!next) return;
+
+			const controller = new AbortController();
+			this.running.set(next.id, controller);
+			void this.run(next, controller.signal).finally(() => {
+				this.running.delete(next.id);
+				this.pump();
+			});
+		}
+	}
+
+	private async run(job: ImportJob, signal: AbortSignal): Promise<void> {
+		const file = job.file;
+		if (!file) {
+			await this.update(job, { status: 'failed', error: 'File is no longer available' });
+			return;
+		}
+
+		await this.update(job, { status: 'running', attempts: job.attempts + 1, progress: 0, error: undefined });
+
+		const manager = new ArchiveManager();
+		try {
+			const hash = await calculateHash(file, {
+				signal,
+				onProgress: (bytes, total) => {
+					job.progress = (total ? bytes / total : 1) * HASH_PROGRESS_SHARE;
+					this.notify();
+				}
+			});
+
+			const existing = await comicStorage.getItemByHash(hash);
+			if (existing) {
+				await this.finish(job, 'duplicate', { itemId: existing.id });
+				return;
+			}
+
+			const analysis = await analyzeComic(manager, file);
+			signal.throwIfAborted();
+
+			// A parallel job with the same content may have saved it since the check above
+			const { item, duplicate } = await comicStorage.saveFile(file, { thumbnail: analysis.thumbnail, parentId: job.parentId });
+			if (duplicate) {
+				await this.finish(job, 'duplicate', { itemId: item.id });
+				return;
+			}
+			await comicStorage.saveComicMetadata(createComicRecord(item.id, file, analysis));
+			await this.finish(job, 'imported', { itemId: item.id });
+		} catch (error) {
+			if (signal.aborted) {
+				if (signal.reason === 'pause') {
+					await this.update(job, { status: 'queued', progress: undefined });
+				} else {
+					await this.finish(job, 'cancelled');
+				}
+				return;
+			}
+
+			logger.error('ImportQueue', `Failed to import ${job.name}`, error);
+			// The file stays with the job so it can be retried
+			await this.update(job, {
+				status: 'failed',
+				progress: undefined,
+				error: error instanceof Error ? error.message : String(error)
+			});
+		} finally {
+			manager.cleanup();
+		}
+	}
+
+	private async finish(job: ImportJob, status: ImportJobStatus, changes: Partial<ImportJob> = {}): Promise<void> {
+		// Nothing left to retry, drop the stored copy of the file
+		await this.update(job, { ...changes, status, file: undefined, progress: undefined });
+		logger.info('ImportQueue', `${job.name}: ${status}`);
+	}
+
+	private async update(job: ImportJob, changes: Partial<ImportJob>): Promise<void> {
+		Object.assign(job, changes, { updatedAt: Date.now() });
+		this.notify();
+		try {
+			await comicStorage.saveImportJob(job);
+		} catch (error) {
+			logger.warn('ImportQueue', `Failed to persist import job ${job.name}`, error);
+		}
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) listener();
+	}
+}
+
+export const importQueue = new ImportQueue();
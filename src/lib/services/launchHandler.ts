@@ -0,0 +1,66 @@
+// Files arriving from the operating system
+// Comics opened with the installed app (manifest file_handlers) go straight into the reader,
+// comics shared to it (manifest share_target) are imported into the library. Both reuse the
+// library's copy when the file is already in it.
+
+import { handleFile } from './comicProcessor';
+import { uploadService } from './uploadService';
+import { logger } from './logger';
+import { setError } from '../store/session';
+import { SHARE_TARGET_CACHE, fromSharedResponse } from '../utils/shareTarget';
+import type { ImportJob } from '../../types/comic';
+
+// Registers for files opened with the app, the browser holds launches until a consumer is set
+export function consumeLaunchQueue(): void {
+	if (!window.launchQueue) return;
+
+	window.launchQueue.setConsumer(async ({ files }) => {
+		const handles = files.filter((handle): handle is FileSystemFileHandle => handle.kind === 'file');
+		if (handles.length === 0) return;
+
+		try {
+			const [first, ...rest] = await Promise.all(handles.map((handle) => handle.getFile()));
+			logger.info('LaunchHandler', `Opening ${first.name}`);
+			// Only one comic can be read at a time, the others go to the library
+			if (rest.length > 0) void importFiles(rest);
+			await handleFile(first, async () => {});
+		} catch (error) {
+			logger.error('LaunchHandler', 'Failed to open launched file', error);
+			setError('Failed to open the file', 'error');
+		}
+	});
+}
+
+// Imports files the service worker received from a share, if there are any
+export async function importSharedFiles(): Promise<ImportJob[]> {
+	if (!('caches' in window) || !(await caches.has(SHARE_TARGET_CACHE))) return [];
+
+	const cache = await caches.open(SHARE_TARGET_CACHE);
+	const files: File[] = [];
+	for (const request of await cache.keys()) {
+		const response = await cache.match(request);
+		if (response) files.push(await fromSharedResponse(response));
+	}
+	// The files are in hand, a failed import must not repeat on every load
+	await caches.delete(SHARE_TARGET_CACHE);
+
+	return files.length > 0 ? importFiles(files) : [];
+}
+
+async function importFiles(files: File[]): Promise<ImportJob[]> {
+	logger.info('LaunchHandler', `Importing ${files.length} shared files`);
+	const jobs = await uploadService.processFileList(files, () => {});
+
+	const imported = jobs.filter((job) => job.status === 'imported').length;
+	const duplicates = jobs.filter((job) => job.status === 'duplicate').length;
+	const failed = jobs.filter((job) => job.status === 'failed').length;
+	const skipped = files.length - jobs.length;
+
+	const parts = [
+		`${imported} imported`,
+		duplicates && `${duplicates} already in library`,
+		(failed || skipped) && `${failed + skipped} failed`
+	].filter(Boolean);
+	setError(`Shared comics: ${parts.join(', ')}`, failed || skipped ? 'warning' : 'info');
+	return jobs;
+}
@@ -0,0 +1,190 @@
+// Page Prefetcher for the reader
+// Extracts and decodes pages around the current one ahead of time and keeps
+// the decoded bitmaps in a memory-bounded LRU so page turns don't flash.
+
+import { LruCache } from '../utils/lruCache.js';
+import { logger } from './logger.js';
+
+export interface PrefetchOptions {
+	ahead?: number; // Pages decoded past the current one, in reading order
+	behind?: number; // Pages kept ready behind the current one
+	memoryBudget?: number; // Bytes of decoded RGBA data kept in memory
+	concurrency?: number; // Background extractions running at once
+}
+
+export interface PageCacheStats {
+	hits: number;
+	misses: number;
+	pendingHits: number; // Requests that joined an in-flight prefetch
+	prefetched: number;
+	cancelled: number;
+	evictions: number;
+	entries: number;
+	bytes: number;
+	memoryBudget: number;
+	hitRate: number;
+}
+
+const DEFAULT_OPTIONS: Required<PrefetchOptions> = {
+	ahead: 3,
+	behind: 1,
+	memoryBudget: 256 * 1024 * 1024,
+	concurrency: 1
+};
+
+export class PagePrefetcher {
+	private options: Required<PrefetchOptions>;
+	private cache: LruCache<number, ImageBitmap>;
+	private inflight = new Map<number, Promise<ImageBitmap | null>>();
+	private queue: number[] = [];
+	private window = new Set<number>();
+	private requested = new Set<number>();
+	private generation = 0;
+	private activeJobs = 0;
+	private isDisposed = false;
+
+	private stats = { hits: 0, misses: 0, pendingHits: 0, prefetched: 0, cancelled: 0 };
+
+	constructor(
+		private fetchPage: (index: number) => Promise<Blob>,
+		private totalPages: number,
+		options: PrefetchOptions = {}
+	) {
+		this.options = { ...DEFAULT_OPTIONS, ...options };
+		this.cache = new LruCache<number, ImageBitmap>(
+			this.options.memoryBudget,
+			(bitmap) => bitmap.width * bitmap.height * 4,
+			(_index, bitmap) => bitmap.close()
+		);
+	}
+
+	// Decoded page, from the cache when possible. It comes pinned, so nothing closes it before
+	// the caller gets to draw it: release it with unpin() once it is off screen.
+	async getImage(index: number): Promise<ImageBitmap> {
+		this.cache.pin(index);
+		const cached = this.cache.get(index);
+		if (cached) {
+			this.stats.hits++;
+			return cached;
+		}
+
+		if (this.inflight.has(index)) {
+			this.stats.pendingHits++;
+		} else {
+			this.stats.misses++;
+		}
+
+		this.requested.add(index);
+		try {
+			const bitmap = await this.load(index);
+			if (!bitmap) throw new Error(`Page ${index} was released before it could be shown`);
+			return bitmap;
+		} catch (error) {
+			this.cache.unpin(index);
+			throw error;
+		} finally {
+			this.requested.delete(index);
+		}
+	}
+
+	isReady(index: number): boolean {
+		return this.cache.has(index);
+	}
+
+	// Moves the prefetch window; queued work outside the new window is dropped
+	schedule(center: number, direction: 1 | -1 = 1): void {
+		if (this.isDisposed) return;
+		this.generation++;
+
+		const wanted: number[] = [];
+		for (let i = 1; i <= this.options.ahead; i++) wanted.push(center + i * direction);
+		for (let i = 1; i <= this.options.behind; i++) wanted.push(center - i * direction);
+
+		const inRange = wanted.filter((index) => index >= 0 && index < this.totalPages);
+		this.window = new Set([center, ...inRange]);
+
+		const stale = this.queue.filter((index) => !this.window.has(index));
+		this.stats.cancelled += stale.length;
+
+		this.queue = inRange.filter((index) => !this.cache.has(index) && !this.inflight.has(index));
+		this.pump();
+	}
+
+	// Releases one getImage() pin, the page may be evicted once none are left
+	unpin(index: number): void {
+		this.cache.unpin(index);
+	}
+
+	getStats(): PageCacheStats {
+		const lookups = this.stats.hits + this.stats.misses + this.stats.pendingHits;
+		return {
+			...this.stats,
+			evictions: this.cache.evictions,
+			entries: this.cache.size,
+			bytes: this.cache.bytes,
+			memoryBudget: this.options.memoryBudget,
+			hitRate: lookups > 0 ? (this.stats.hits + this.stats.pendingHits) / lookups : 0
+		};
+	}
+
+	dispose(): void {
+		this.isDisposed = true;
+		this.queue = [];
+		this.window.clear();
+		this.cache.clear();
+	}
+
+	private pump(): void {
+		while (this.activeJobs < this.options.concurrency && this.queue.length > 0) {
+			const index = this.queue.shift()!;
+			const generation = this.generation;
+			this.activeJobs++;
+
+			void this.prefetch(index, generation).finally(() => {
+				this.activeJobs--;
+				this.pump();
+			});
+		}
+	}
+
+	private async prefetch(index: number, generation: number): Promise<void> {
+		if (generation !== this.generation && !this.window.has(index)) {
+			this.stats.cancelled++;
+			return;
+		}
+		if (this.cache.has(index)) return;
+
+		try {
+			const bitmap = await this.load(index);
+			if (bitmap) this.stats.prefetched++;
+		} catch (error) {
+			logger.warn('PagePrefetcher', `Failed to prefetch page ${index}`, error);
+		}
+	}
+
+	private load(index: number): Promise<ImageBitmap | null> {
+		const existing = this.inflight.get(index);
+		if (existing) return existing;
+
+		const promise = (async () => {
+			const blob = await this.fetchPage(index);
+			const bitmap = await createImageBitmap(blob);
+
+			// The reader moved on while we were decoding and nobody is waiting for this page
+			const isStale = !this.window.has(index) && !this.requested.has(index);
+			if (this.isDisposed || isStale) {
+				bitmap.close();
+				if (isStale) this.stats.cancelled++;
+				return null;
+			}
+
+			this.cache.set(index, bitmap);
+			return bitmap;
+		})().finally(() => {
+			this.inflight.delete(index);
+		});
+
+		this.inflight.set(index, promise);
+		return promise;
+	}
+}
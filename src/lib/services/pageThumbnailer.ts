@@ -0,0 +1,198 @@
+// Page Thumbnailer for the reader
+// Generates small page previews lazily in a worker and caches them in IndexedDB per comic.
+
+import { comicStorage } from '../storage/comicStorage.js';
+import type { ThumbnailRequest, ThumbnailResponse } from '../workers/thumbnail.worker.js';
+import { logger } from './logger.js';
+
+const DEFAULT_WIDTH = 160;
+
+interface Deferred {
+	resolve: (url: string) => void;
+	reject: (error: Error) => void;
+}
+
+export class PageThumbnailer {
+	private worker: Worker | null = null;
+	private useWorker = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+	private nextRequestId = 0;
+	private workerRequests = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+	private urls = new Map<number, string>();
+	private inflight = new Map<number, Promise<string>>();
+	private waiting = new Map<number, Deferred>();
+	// Most recently requested first, so whatever just scrolled into view loads next
+	private queue: number[] = [];
+	private isRunning = false;
+	private isDisposed = false;
+
+	constructor(
+		private comicId: string,
+		private fetchPage: (index: number) => Promise<Blob>,
+		private width = DEFAULT_WIDTH
+	) {}
+
+	getUrl(index: number): string | undefined {
+		return this.urls.get(index);
+	}
+
+	getThumbnail(index: number): Promise<string> {
+		const cached = this.urls.get(index);
+		if (cached) return Promise.resolve(cached);
+
+		const existing = this.inflight.get(index);
+		if (existing) {
+			this.prioritize(index);
+			return existing;
+		}
+
+		const promise = new Promise<string>((resolve, reject) => {
+			this.waiting.set(index, { resolve, reject });
+		}).finally(() => this.inflight.delete(index));
+
+		this.inflight.set(index, promise);
+		this.queue.unshift(index);
+		void this.run();
+		return promise;
+	}
+
+	// Drops a queued request that is no longer visible; work already started finishes
+	cancel(index: number): void {
+		const position = this.queue.indexOf(index);
+		if (position < 0) return;
+		this.queue.splice(position, 1);
+		this.waiting.get(index)?.reject(new Error('Thumbnail request cancelled'));
+		this.waiting.delete(index);
+	}
+
+	dispose(): void {
+		this.isDisposed = true;
+		for (const deferred of this.waiting.values()) {
+			deferred.reject(new Error('Thumbnailer disposed'));
+		}
+		this.waiting.clear();
+		this.queue = [];
+
+		for (const request of this.workerRequests.values()) {
+			request.reject(new Error('Thumbnailer disposed'));
+		}
+		this.workerRequests.clear();
+		this.worker?.terminate();
+		this.worker = null;
+
+		for (const url of this.urls.values()) URL.revokeObjectURL(url);
+		this.urls.clear();
+	}
+
+	private prioritize(index: number): void {
+		const position = this.queue.indexOf(index);
+		if (position > 0) {
+			this.queue.splice(position, 1);
+			this.queue.unshift(index);
+		}
+	}
+
+	private async run(): Promise<void> {
+		if (this.isRunning) return;
+		this.isRunning = true;
+
+		try {
+			while (this.queue.length > 0 && !this.isDisposed) {
+				const index = this.queue.shift()!;
+				const deferred = this.waiting.get(index);
+				if (!deferred) continue;
+				this.waiting.delete(index);
+
+				try {
+					const blob = await this.loadThumbnail(index);
+					if (this.isDisposed) return;
+					const url = URL.createObjectURL(blob);
+					this.urls.set(index, url);
+					deferred.resolve(url);
+				} catch (error) {
+					deferred.reject(error instanceof Error ? error : new Error(String(error)));
+				}
+			}
+		} finally {
+			this.isRunning = false;
+		}
+	}
+
+	private async loadThumbnail(index: number): Promise<Blob> {
+		try {
+			const stored = await comicStorage.getPageThumbnail(this.comicId, index);
+			if (stored) return stored;
+		} catch (error) {
+			logger.warn('PageThumbnailer', `Failed to read cached thumbnail ${index}`, error);
+		}
+
+		const page = await this.fetchPage(index);
+		const thumbnail = await this.render(page);
+
+		comicStorage.savePageThumbnail(this.comicId, index, thumbnail).catch((error) => {
+			logger.warn('PageThumbnailer', `Failed to cache thumbnail ${index}`, error);
+		});
+		return thumbnail;
+	}
+
+	private async render(blob: Blob): Promise<Blob> {
+		if (this.useWorker) {
+			try {
+				return await this.renderInWorker(blob);
+			} catch (error) {
+				logger.warn('PageThumbnailer', 'Worker thumbnailing failed, using the main thread', error);
+				this.useWorker = false;
+				this.worker?.terminate();
+				this.worker = null;
+			}
+		}
+		return this.renderOnMainThread(blob);
+	}
+
+	private renderInWorker(blob: Blob): Promise<Blob> {
+		if (!this.worker) {
+			this.worker = new Worker(new URL('../workers/thumbnail.worker.ts', import.meta.url), { type: 'module' });
+			this.worker.onmessage = (event: MessageEvent<ThumbnailResponse>) => {
+				const response = event.data;
+				const request = this.workerRequests.get(response.id);
+				if (!request) return;
+				this.workerRequests.delete(response.id);
+
+				if ('error' in response) {
+					request.reject(new Error(response.error));
+				} else {
+					request.resolve(response.blob);
+				}
+			};
+			this.worker.onerror = (event) => {
+				const error = new Error(event.message || 'Thumbnail worker crashed');
+				for (const request of this.workerRequests.values()) request.reject(error);
+				this.workerRequests.clear();
+			};
+		}
+
+		const id = ++this.nextRequestId;
+		return new Promise<Blob>((resolve, reject) => {
+			this.workerRequests.set(id, { resolve, reject });
+			const message: ThumbnailRequest = { id, blob, width: this.width };
+			this.worker!.postMessage(message);
+		});
+	}
+
+	private async renderOnMainThread(blob: Blob): Promise<Blob> {
+		const bitmap = await createImageBitmap(blob);
+		const scale = Math.min(1, this.width / bitmap.width);
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+		canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+		canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+		bitmap.close();
+
+		return new Promise((resolve, reject) => {
+			canvas.toBlob((result) => {
+				if (result) resolve(result);
+				else reject(new Error('Failed to encode thumbnail'));
+			}, 'image/webp', 0.75);
+		});
+	}
+}
@@ -0,0 +1,214 @@
+// Reading Progress Sync
+// A small JSON document of reading state keyed by content hash, so progress can move
+// between browsers that imported the same files (item ids are random per browser).
+
+import { comicStorage } from '../storage/comicStorage.js';
+import type { Bookmark, ComicBook } from '../../types/comic.js';
+import { logger } from './logger.js';
+
+export const PROGRESS_FORMAT = 'comikaiju-progress';
+export const PROGRESS_VERSION = 1;
+
+export interface ProgressEntry {
+	contentHash: string;
+	name: string;
+	currentPage: number;
+	totalPages: number;
+	lastRead: string; // ISO timestamp
+	finished: boolean;
+	filter?: string;
+	bookmarks?: ProgressBookmark[];
+}
+
+export type ProgressBookmark = Pick<Bookmark, 'pageIndex' | 'name' | 'note'>;
+
+export interface ProgressDocument {
+	format: typeof PROGRESS_FORMAT;
+	version: number;
+	exportedAt: string;
+	entries: ProgressEntry[];
+}
+
+export interface ProgressConflict {
+	entry: ProgressEntry;
+	localPage: number;
+	localLastRead: string;
+	kept: 'local' | 'imported';
+}
+
+export interface ProgressImportReport {
+	matched: ProgressEntry[]; // Found locally and applied or already in sync
+	unmatched: ProgressEntry[]; // No local file with that content
+	conflicts: ProgressConflict[]; // Both sides had different progress
+}
+
+export class ProgressSyncError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ProgressSyncError';
+	}
+}
+
+function isFinished(currentPage: number, totalPages: number): boolean {
+	return totalPages > 0 && currentPage >= totalPages - 1;
+}
+
+function toTime(value: Date | string | undefined): number {
+	return value ? new Date(value).getTime() || 0 : 0;
+}
+
+// A comic finished elsewhere is finished here too, even if the last page wasn't recorded
+function importedPage(entry: ProgressEntry): number {
+	return entry.finished && entry.totalPages > 0
+		? Math.max(entry.currentPage, entry.totalPages - 1)
+		: entry.currentPage;
+}
+
+// Adds bookmarks for pages that aren't bookmarked locally yet
+async function mergeBookmarks(comicId: string, bookmarks: ProgressBookmark[]): Promise<void> {
+	const existingPages = new Set((await comicStorage.getBookmarks(comicId)).map((b) => b.pageIndex));
+	const now = Date.now();
+
+	for (const { pageIndex, name, note } of bookmarks) {
+		if (typeof pageIndex !== 'number' || existingPages.has(pageIndex)) continue;
+		await comicStorage.saveBookmark({
+			id: crypto.randomUUID(),
+			comicId,
+			pageIndex,
+			name: name || `Page ${pageIndex + 1}`,
+			note,
+			createdAt: now,
+			updatedAt: now
+		});
+		existingPages.add(pageIndex);
+	}
+}
+
+export async function exportProgress(): Promise<ProgressDocument> {
+	const [items, metadata, bookmarks] = await Promise.all([
+		comicStorage.getAllFiles(),
+		comicStorage.getAllComicMetadata(),
+		comicStorage.getAllBookmarks()
+	]);
+	const metadataById = new Map(metadata.map((comic) => [comic.id, comic]));
+	const bookmarksByComic = new Map<string, ProgressBookmark[]>();
+	for (const { comicId, pageIndex, name, note } of bookmarks) {
+		const list = bookmarksByComic.get(comicId) ?? [];
+		list.push(note ? { pageIndex, name, note } : { pageIndex, name });
+		bookmarksByComic.set(comicId, list);
+	}
+
+	const entries: ProgressEntry[] = [];
+	for (const item of items) {
+		const comic = metadataById.get(item.id);
+		if (!item.contentHash || !comic) continue;
+
+		const entry: ProgressEntry = {
+			contentHash: item.contentHash,
+			name: item.name,
+			currentPage: comic.currentPage ?? 0,
+			totalPages: comic.totalPages ?? 0,
+			lastRead: new Date(comic.lastRead).toISOString(),
+			finished: isFinished(comic.currentPage ?? 0, comic.totalPages ?? 0)
+		};
+		const filter = (comic as ComicBook & { filter?: string }).filter;
+		if (filter) entry.filter = filter;
+		const comicBookmarks = bookmarksByComic.get(item.id);
+		if (comicBookmarks) entry.bookmarks = comicBookmarks.sort((a, b) => a.pageIndex - b.pageIndex);
+		entries.push(entry);
+	}
+
+	logger.info('ProgressSync', `Exported progress for ${entries.length} comics`);
+	return {
+		format: PROGRESS_FORMAT,
+		version: PROGRESS_VERSION,
+		exportedAt: new Date().toISOString(),
+		entries
+	};
+}
+
+export function parseProgressDocument(json: string): ProgressDocument {
+	let doc: ProgressDocument;
+	try {
+		doc = JSON.parse(json);
+	} catch {
+		throw new ProgressSyncError('Progress file is not valid JSON');
+	}
+
+	if (doc?.format !== PROGRESS_FORMAT || !Array.isArray(doc.entries)) {
+		throw new ProgressSyncError('This file is not a ComiKaiju progress export');
+	}
+	if (doc.version > PROGRESS_VERSION) {
+		throw new ProgressSyncError(`Progress format ${doc.version} is newer than this app supports`);
+	}
+	return doc;
+}
+
+// Applies imported progress; whichever side was read last wins
+export async function importProgress(doc: ProgressDocument): Promise<ProgressImportReport> {
+	const report: ProgressImportReport = { matched: [], unmatched: [], conflicts: [] };
+
+	for (const entry of doc.entries) {
+		if (!entry?.contentHash || typeof entry.currentPage !== 'number') continue;
+		const lastRead = new Date(entry.lastRead);
+		if (Number.isNaN(lastRead.getTime())) {
+			logger.warn('ProgressSync', `Skipping ${entry.name}: invalid lastRead`, entry.lastRead);
+			continue;
+		}
+
+		const item = await comicStorage.getItemByHash(entry.contentHash);
+		if (!item) {
+			report.unmatched.push(entry);
+			continue;
+		}
+
+		if (entry.bookmarks?.length) {
+			await mergeBookmarks(item.id, entry.bookmarks);
+		}
+
+		const local = await comicStorage.getComicMetadata(item.id);
+		const currentPage = importedPage(entry);
+
+		if (!local) {
+			// Never opened here yet: pages get filled in on first open, progress is kept
+			await comicStorage.saveComicMetadata({
+				id: item.id,
+				title: item.name.replace(/\.[^.]+$/, ''),
+				filename: item.name,
+				pages: [],
+				currentPage,
+				totalPages: entry.totalPages,
+				lastRead
+			});
+		} else if (local.currentPage !== currentPage) {
+			const importedIsNewer = toTime(lastRead) > toTime(local.lastRead);
+			report.conflicts.push({
+				entry,
+				localPage: local.currentPage,
+				localLastRead: new Date(local.lastRead).toISOString(),
+				kept: importedIsNewer ? 'imported' : 'local'
+			});
+			if (importedIsNewer) {
+				await comicStorage.updateLastAccessed(item.id, {
+					currentPage,
+					totalPages: entry.totalPages || undefined,
+					lastRead
+				});
+				if (entry.filter) await comicStorage.saveFilterSetting(item.id, entry.filter);
+			}
+			continue;
+		}
+
+		if (entry.filter) {
+			await comicStorage.saveFilterSetting(item.id, entry.filter);
+		}
+		report.matched.push(entry);
+	}
+
+	logger.info('ProgressSync', 'Progress imported', {
+		matched: report.matched.length,
+		unmatched: report.unmatched.length,
+		conflicts: report.conflicts.length
+	});
+	return report;
+}
@@ -0,0 +1,91 @@
+// Records reading sessions for the statistics page
+// A session runs from opening a comic (or coming back to the tab) until leaving the reader
+// (or the tab). Only active time counts: the gap between two page turns adds at most
+// MAX_PAGE_TIME, so a reader left open overnight doesn't read for eight hours.
+
+import { comicStorage } from '../storage/comicStorage';
+import { logger } from './logger';
+import type { ComicBook, ReadingSession } from '../../types/comic';
+
+// Longest time a single page is believed to be read
+const MAX_PAGE_TIME = 5 * 60 * 1000;
+// Opening a comic and leaving straight away isn't reading
+const MIN_SESSION_TIME = 5 * 1000;
+
+interface ActiveSession {
+	comic: ComicBook;
+	startPage: number;
+	endPage: number;
+	pages: Set<number>;
+	startedAt: number;
+	lastActivity: number;
+	duration: number;
+}
+
+class ReadingSessionTracker {
+	private active: ActiveSession | null = null;
+
+	start(comic: ComicBook, page: number): void {
+		if (this.active) void this.end();
+
+		const now = Date.now();
+		this.active = {
+			comic,
+			startPage: page,
+			endPage: page,
+			pages: new Set([page]),
+			startedAt: now,
+			lastActivity: now,
+			duration: 0
+		};
+	}
+
+	recordPage(page: number): void {
+		const session = this.active;
+		if (!session) return;
+
+		this.addActiveTime(session);
+		session.endPage = page;
+		session.pages.add(page);
+	}
+
+	// Appends the session to the log, a no-op without one running
+	async end(): Promise<ReadingSession | null> {
+		const session = this.active;
+		if (!session) return null;
+		this.active = null;
+
+		this.addActiveTime(session);
+		if (session.duration < MIN_SESSION_TIME && session.pages.size <= 1) return null;
+
+		const { comic } = session;
+		const record: ReadingSession = {
+			id: crypto.randomUUID(),
+			comicId: comic.id,
+			title: comic.title,
+			series: comic.info?.series,
+			startPage: session.startPage,
+			endPage: session.endPage,
+			pagesRead: session.pages.size,
+			totalPages: comic.totalPages || comic.pages?.length || 0,
+			startedAt: session.startedAt,
+			duration: session.duration
+		};
+
+		try {
+			await comicStorage.addReadingSession(record);
+		} catch (error) {
+			logger.error('ReadingSessions', 'Failed to record reading session', error);
+			return null;
+		}
+		return record;
+	}
+
+	private addActiveTime(session: ActiveSession): void {
+		const now = Date.now();
+		session.duration += Math.min(now - session.lastActivity, MAX_PAGE_TIME);
+		session.lastActivity = now;
+	}
+}
+
+export const readingSessionTracker = new ReadingSessionTracker();
@@ -0,0 +1,183 @@
+// Reading statistics, computed from the reading session log
+// Days are local calendar days, so a session at 23:30 counts for that evening.
+
+import type { ReadingSession } from '../../types/comic';
+
+export interface DayStats {
+	day: string; // YYYY-MM-DD
+	pages: number;
+	duration: number;
+}
+
+export interface SeriesStats {
+	series: string;
+	sessions: number;
+	pages: number;
+	duration: number;
+	comics: number;
+}
+
+export interface ComicTimeline {
+	comicId: string;
+	title: string;
+	series?: string;
+	totalPages: number;
+	furthestPage: number;
+	finished: boolean;
+	duration: number;
+	lastReadAt: number;
+	sessions: ReadingSession[]; // Newest first
+}
+
+export interface ReadingStats {
+	totalDuration: number;
+	totalPages: number;
+	sessionCount: number;
+	days: DayStats[]; // Every day of the range, days without reading included
+	currentStreak: number;
+	longestStreak: number;
+	comicsStarted: number;
+	comicsFinished: number;
+	completionRate: number; // 0 to 1
+	topSeries: SeriesStats[];
+	comics: ComicTimeline[]; // Most recently read first
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function toDayKey(time: number): string {
+	const date = new Date(time);
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Reaching the last page counts as finishing, wherever reading started
+function isFinished(timeline: ComicTimeline): boolean {
+	return timeline.totalPages > 0 && timeline.furthestPage >= timeline.totalPages - 1;
+}
+
+// Consecutive reading days, the current streak survives a day not read yet
+function computeStreaks(readDays: Set<string>, now: number): { current: number; longest: number } {
+	let longest = 0;
+	let run = 0;
+	let previous: number | null = null;
+	for (const key of [...readDays].sort()) {
+		const time = new Date(`${key}T12:00:00`).getTime();
+		run = previous !== null && Math.round((time - previous) / DAY) === 1 ? run + 1 : 1;
+		longest = Math.max(longest, run);
+		previous = time;
+	}
+
+	// Step by calendar date, days around a DST change aren't 24 hours long
+	let current = 0;
+	const cursor = new Date(now);
+	if (!readDays.has(toDayKey(now))) cursor.setDate(cursor.getDate() - 1);
+	while (readDays.has(toDayKey(cursor.getTime()))) {
+		current++;
+		cursor.setDate(cursor.getDate() - 1);
+	}
+	return { current, longest };
+}
+
+export function computeReadingStats(sessions: ReadingSession[], rangeDays: number, now = Date.now()): ReadingStats {
+	const byDay = new Map<string, DayStats>();
+	const bySeries = new Map<string, SeriesStats & { comicIds: Set<string> }>();
+	const byComic = new Map<string, ComicTimeline>();
+	let totalDuration = 0;
+	let totalPages = 0;
+
+	for (const session of sessions) {
+		totalDuration += session.duration;
+		totalPages += session.pagesRead;
+
+		const key = toDayKey(session.startedAt);
+		const day = byDay.get(key) ?? { day: key, pages: 0, duration: 0 };
+		day.pages += session.pagesRead;
+		day.duration += session.duration;
+		byDay.set(key, day);
+
+		if (session.series) {
+			const series = bySeries.get(session.series) ?? {
+				series: session.series,
+				sessions: 0,
+				pages: 0,
+				duration: 0,
+				comics: 0,
+				comicIds: new Set<string>()
+			};
+			series.sessions++;
+			series.pages += session.pagesRead;
+			series.duration += session.duration;
+			series.comicIds.add(session.comicId);
+			bySeries.set(session.series, series);
+		}
+
+		const comic = byComic.get(session.comicId) ?? {
+			comicId: session.comicId,
+			title: session.title,
+			series: session.series,
+			totalPages: session.totalPages,
+			furthestPage: 0,
+			finished: false,
+			duration: 0,
+			lastReadAt: 0,
+			sessions: []
+		};
+		// The latest session has the current title and page count
+		if (session.startedAt >= comic.lastReadAt) {
+			comic.title = session.title;
+			comic.series = session.series;
+			comic.totalPages = session.totalPages;
+			comic.lastReadAt = session.startedAt;
+		}
+		comic.furthestPage = Math.max(comic.furthestPage, session.startPage, session.endPage);
+		comic.duration += session.duration;
+		comic.sessions.push(session);
+		byComic.set(session.comicId, comic);
+	}
+
+	const days: DayStats[] = [];
+	const date = new Date(now);
+	date.setDate(date.getDate() - (rangeDays - 1));
+	for (let i = 0; i < rangeDays; i++) {
+		const key = toDayKey(date.getTime());
+		days.push(byDay.get(key) ?? { day: key, pages: 0, duration: 0 });
+		date.setDate(date.getDate() + 1);
+	}
+
+	const comics = [...byComic.values()].sort((a, b) => b.lastReadAt - a.lastReadAt);
+	for (const comic of comics) {
+		comic.finished = isFinished(comic);
+		comic.sessions.sort((a, b) => b.startedAt - a.startedAt);
+	}
+	const comicsFinished = comics.filter((comic) => comic.finished).length;
+
+	const topSeries = [...bySeries.values()]
+		.map(({ comicIds, ...series }) => ({ ...series, comics: comicIds.size }))
+		.sort((a, b) => b.duration - a.duration || b.pages - a.pages);
+
+	const streaks = computeStreaks(new Set(byDay.keys()), now);
+
+	return {
+		totalDuration,
+		totalPages,
+		sessionCount: sessions.length,
+		days,
+		currentStreak: streaks.current,
+		longestStreak: streaks.longest,
+		comicsStarted: comics.length,
+		comicsFinished,
+		completionRate: comics.length > 0 ? comicsFinished / comics.length : 0,
+		topSeries,
+		comics
+	};
+}
+
+// 1h 25m, 12m, or under a minute
+export function formatDuration(ms: number): string {
+	const minutes = Math.round(ms / 60000);
+	if (minutes < 1) return '<1m';
+	const hours = Math.floor(minutes / 60);
+	return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
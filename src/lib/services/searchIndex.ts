@@ -0,0 +1,254 @@
+// Library Search Index
+// Keeps an in-memory index of imported files and their comic metadata,
+// kept current through comicStorage change events.
+
+import { comicStorage, type StorageChange } from '../storage/comicStorage.js';
+import type { ComicBook, FileSystemItem } from '../../types/comic.js';
+import { normalizeText, scoreToken, tokenize } from '../utils/fuzzy.js';
+import { logger } from './logger.js';
+
+export type ReadStatus = 'unread' | 'in-progress' | 'finished';
+
+export interface SearchFilters {
+	status?: ReadStatus;
+	minSize?: number; // Bytes
+	maxSize?: number;
+	addedAfter?: number; // Epoch ms, compared against the item's createdAt
+	addedBefore?: number;
+}
+
+export interface SearchResult {
+	item: FileSystemItem;
+	metadata?: ComicBook;
+	score: number;
+}
+
+interface IndexedField {
+	tokens: string[];
+	text: string;
+	weight: number;
+}
+
+interface IndexEntry {
+	item: FileSystemItem;
+	metadata?: ComicBook;
+	fields: IndexedField[];
+}
+
+// Relative importance of each searchable field
+const FIELD_WEIGHTS = {
+	name: 1,
+	title: 1,
+	series: 0.9,
+	writer: 0.7,
+	tags: 0.6
+};
+
+export function getReadStatus(metadata?: ComicBook): ReadStatus {
+	if (!metadata || !metadata.currentPage) return 'unread';
+	if (metadata.totalPages > 0 && metadata.currentPage >= metadata.totalPages - 1) return 'finished';
+	return 'in-progress';
+}
+
+function buildField(text: string | undefined, weight: number): IndexedField | null {
+	if (!text) return null;
+	const tokens = tokenize(text);
+	return tokens.length > 0 ? { tokens, text: tokens.join(' '), weight } : null;
+}
+
+function buildEntry(item: FileSystemItem, metadata?: ComicBook): IndexEntry {
+	const info = metadata?.info;
+	const fields = [
+		buildField(item.name.replace(/\.[^.]+$/, ''), FIELD_WEIGHTS.name),
+		buildField(metadata?.title, FIELD_WEIGHTS.title),
+		buildField(info?.title, FIELD_WEIGHTS.title),
+		buildField(info?.series, FIELD_WEIGHTS.series),
+		buildField(info?.writer, FIELD_WEIGHTS.writer),
+		buildField(info?.tags?.join(' '), FIELD_WEIGHTS.tags)
+	].filter((field): field is IndexedField => field !== null);
+
+	return { item, metadata, fields };
+}
+
+function matchesFilters(entry: IndexEntry, filters: SearchFilters): boolean {
+	const { item, metadata } = entry;
+	if (filters.status && getReadStatus(metadata) !== filters.status) return false;
+	if (filters.minSize !== undefined && item.size < filters.minSize) return false;
+	if (filters.maxSize !== undefined && item.size > filters.maxSize) return false;
+	if (filters.addedAfter !== undefined && item.createdAt < filters.addedAfter) return false;
+	if (filters.addedBefore !== undefined && item.createdAt > filters.addedBefore) return false;
+	return true;
+}
+
+class SearchIndex {
+	private entries = new Map<string, IndexEntry>();
+	private initPromise: Promise<void> | null = null;
+	private unsubscribe: (() => void) | null = null;
+	private listeners = new Set<() => void>();
+	private pendingRefresh = new Set<string>();
+	private refreshScheduled = false;
+
+	async init(): Promise<void> {
+		if (this.initPromise) return this.initPromise;
+
+		this.initPromise = (async () => {
+			this.unsubscribe = comicStorage.onChange((change) => this.handleChange(change));
+
+			const [items, metadata] = await Promise.all([
+				comicStorage.getAllFiles(),
+				comicStorage.getAllComicMetadata()
+			]);
+			const metadataById = new Map(metadata.map((comic) => [comic.id, comic]));
+
+			for (const item of items) {
+				this.entries.set(item.id, buildEntry(item, metadataById.get(item.id)));
+			}
+			logger.info('SearchIndex', `Indexed ${this.entries.size} items`);
+			this.emitUpdate();
+		})();
+
+		try {
+			await this.initPromise;
+		} catch (error) {
+			this.initPromise = null;
+			this.unsubscribe?.();
+			throw error;
+		}
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	// Notified whenever the indexed data changes, so open result lists can refresh
+	onUpdate(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	search(query: string, filters: SearchFilters = {}, limit = 200): SearchResult[] {
+		const start = performance.now();
+		const queryTokens = tokenize(query);
+		const phrase = normalizeText(query);
+
+		// Many items share words (series names, tags), so score each distinct word once
+		const tokenScores = queryTokens.map(() => new Map<string, number>());
+		const results: SearchResult[] = [];
+
+		for (const entry of this.entries.values()) {
+			if (!matchesFilters(entry, filters)) continue;
+
+			if (queryTokens.length === 0) {
+				results.push({ item: entry.item, metadata: entry.metadata, score: 0 });
+				continue;
+			}
+
+			const score = this.scoreEntry(entry, queryTokens, phrase, tokenScores);
+			if (score > 0) {
+				results.push({ item: entry.item, metadata: entry.metadata, score });
+			}
+		}
+
+		results.sort((a, b) => b.score - a.score || b.item.updatedAt - a.item.updatedAt);
+
+		const elapsed = performance.now() - start;
+		if (elapsed > 100) {
+			logger.warn('SearchIndex', `Slow search (${elapsed.toFixed(1)}ms) over ${this.entries.size} items`);
+		}
+
+		return results.slice(0, limit);
+	}
+
+	dispose(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.initPromise = null;
+		this.entries.clear();
+		this.listeners.clear();
+	}
+
+	// Every query word must match somewhere; the entry scores the average of its best matches
+	private scoreEntry(
+		entry: IndexEntry,
+		queryTokens: string[],
+		phrase: string,
+		tokenScores: Map<string, number>[]
+	): number {
+		let total = 0;
+
+		for (let q = 0; q < queryTokens.length; q++) {
+			const cache = tokenScores[q];
+			let best = 0;
+
+			for (const field of entry.fields) {
+				for (const word of field.tokens) {
+					let score = cache.get(word);
+					if (score === undefined) {
+						score = scoreToken(queryTokens[q], word);
+						cache.set(word, score);
+					}
+					if (score * field.weight > best) best = score * field.weight;
+				}
+			}
+
+			if (best === 0) return 0;
+			total += best;
+		}
+
+		let score = total / queryTokens.length;
+
+		// Reward the whole query appearing as written
+		if (queryTokens.length > 1 && entry.fields.some((field) => field.text.includes(phrase))) {
+			score += 0.25;
+		}
+
+		return score;
+	}
+
+	private handleChange(change: StorageChange): void {
+		if (change.type === 'deleted') {
+			for (const id of change.ids) {
+				this.entries.delete(id);
+				this.pendingRefresh.delete(id);
+			}
+			this.emitUpdate();
+			return;
+		}
+
+		// Saves come in bursts (progress updates, imports), batch them
+		for (const id of change.ids) this.pendingRefresh.add(id);
+		if (this.refreshScheduled) return;
+		this.refreshScheduled = true;
+		queueMicrotask(() => void this.flushRefresh());
+	}
+
+	private async flushRefresh(): Promise<void> {
+		const ids = [...this.pendingRefresh];
+		this.pendingRefresh.clear();
+		this.refreshScheduled = false;
+
+		try {
+			for (const id of ids) {
+				const [item, metadata] = await Promise.all([
+					comicStorage.getItem(id),
+					comicStorage.getComicMetadata(id)
+				]);
+
+				if (!item || item.type === 'folder') {
+					this.entries.delete(id);
+				} else {
+					this.entries.set(id, buildEntry(item, metadata ?? undefined));
+				}
+			}
+			this.emitUpdate();
+		} catch (error) {
+			logger.error('SearchIndex', 'Failed to refresh index entries', error);
+		}
+	}
+
+	private emitUpdate(): void {
+		for (const listener of this.listeners) listener();
+	}
+}
+
+export const searchIndex = new SearchIndex();
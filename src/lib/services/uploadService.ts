@@ -1,77 +1,130 @@
 import { comicStorage } from '../storage/comicStorage';
+import { isSupportedFilename } from '../archive/formatProvider';
+import { getParentSegments, walkEntries, type WalkedFile } from '../utils/directoryWalker';
+import { importQueue, isFinishedJob } from './importQueue';
+import type { ImportJob } from '../../types/comic';
 
 export interface UploadProgress {
 	filename: string;
 	current: number;
 	total: number;
 	percentage: number;
+	stage?: 'importing' | 'saved';
+}
+
+interface PlacedFile {
+	file: File;
+	parentId: string | null;
+}
+
+function groupByFolder(files: PlacedFile[]): Map<string | null, File[]> {
+	const groups = new Map<string | null, File[]>();
+	for (const { file, parentId } of files) {
+		const group = groups.get(parentId) ?? [];
+		group.push(file);
+		groups.set(parentId, group);
+	}
+	return groups;
 }
 
 export class UploadService {
-	private isCancelled = false;
+	// Job ids of every import still running, drops and files opened from the OS can overlap
+	private batches = new Set<Set<string>>();
 
 	cancel() {
-		this.isCancelled = true;
+		void importQueue.cancel([...this.batches].flatMap((batch) => [...batch]));
 	}
 
-	async processDrop(items: DataTransferItemList, onProgress: (p: UploadProgress) => void) {
-		this.isCancelled = false;
-        const files: File[] = [];
-        
-        const scanEntry = async (entry: FileSystemEntry) => {
-             if (entry.isFile) {
-                 const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
-                 if (this.isComicFile(file.name)) files.push(file);
-             } else if (entry.isDirectory) {
-                 const reader = (entry as FileSystemDirectoryEntry).createReader();
-                 // readEntries might not return all entries in one go, but for simplicity/revert we assume standard behavior or loop if needed.
-                 // To be robust, we'll just read once.
-                 const entries = await new Promise<FileSystemEntry[]>((resolve) => reader.readEntries(resolve));
-                 for (const child of entries) await scanEntry(child);
-             }
-        };
-
+	// Dropped folders are walked completely and recreated as library folders under parentId
+	async processDrop(items: DataTransferItemList, onProgress: (p: UploadProgress) => void, parentId: string | null = null) {
+		// The item list is emptied once the drop handler yields, take the entries first
+		const entries: FileSystemEntry[] = [];
 		for (let i = 0; i < items.length; i++) {
-			const item = items[i];
-			if (item.kind === 'file') {
-				const entry = item.webkitGetAsEntry();
-				if (entry) await scanEntry(entry);
-			}
+			const entry = items[i].kind === 'file' ? items[i].webkitGetAsEntry() : null;
+			if (entry) entries.push(entry);
 		}
 
-        await this.processFiles(files, onProgress);
+		const files = await walkEntries(entries, { filter: (name) => this.isComicFile(name) });
+		return this.processFiles(await this.placeInFolders(files, parentId), onProgress);
 	}
 
-	async processFileList(fileList: FileList, onProgress: (p: UploadProgress) => void) {
-		this.isCancelled = false;
-        const files: File[] = [];
+	// Files from a directory input (webkitdirectory) keep their folders too
+	async processFileList(fileList: FileList | File[], onProgress: (p: UploadProgress) => void, parentId: string | null = null) {
+        const files: WalkedFile[] = [];
         for (let i = 0; i < fileList.length; i++) {
-            if (this.isComicFile(fileList[i].name)) {
-                files.push(fileList[i]);
+            const file = fileList[i];
+            if (this.isComicFile(file.name)) {
+                files.push({ path: file.webkitRelativePath || file.name, file });
             }
         }
-        await this.processFiles(files, onProgress);
+        return this.processFiles(await this.placeInFolders(files, parentId), onProgress);
 	}
 
-    private async processFiles(files: File[], onProgress: (p: UploadProgress) => void) {
-        const total = files.length;
-        for (let i = 0; i < total; i++) {
-            if (this.isCancelled) break;
-            const file = files[i];
-            await comicStorage.saveFile(file);
-            onProgress({
-                filename: file.name,
-                current: i + 1,
-                total: total,
-                percentage: Math.round(((i + 1) / total) * 100)
-            });
+	// Creates the library folder for each file's relative path, reusing folders that already exist
+	private async placeInFolders(files: WalkedFile[], parentId: string | null): Promise<PlacedFile[]> {
+		const folderIds = new Map<string, string | null>([['', parentId]]);
+
+		const resolveFolder = async (segments: string[]): Promise<string | null> => {
+			const key = segments.join('/');
+			if (folderIds.has(key)) return folderIds.get(key)!;
+
+			const parent = await resolveFolder(segments.slice(0, -1));
+			const name = segments[segments.length - 1];
+			const siblings = await comicStorage.getChildren(parent);
+			const existing = siblings.find((item) => item.type === 'folder' && item.name === name);
+			const id = existing?.id ?? (await comicStorage.createFolder(name, parent)).id;
+			folderIds.set(key, id);
+			return id;
+		};
+
+		const placed: PlacedFile[] = [];
+		for (const { path, file } of files) {
+			placed.push({ file, parentId: await resolveFolder(getParentSegments(path)) });
+		}
+		return placed;
+	}
+
+    // Hands the files to the background import queue and reports until all of them are done.
+    // Resolves with one job per file, telling whether it was imported, a duplicate or failed.
+    private async processFiles(files: PlacedFile[], onProgress: (p: UploadProgress) => void): Promise<ImportJob[]> {
+        const jobs: ImportJob[] = [];
+        for (const [parentId, group] of groupByFolder(files)) {
+            jobs.push(...(await importQueue.enqueue(group, parentId)));
         }
+        const ids = new Set(jobs.map((job) => job.id));
+        const total = jobs.length;
+        this.batches.add(ids);
+
+        return new Promise((resolve) => {
+            const report = () => {
+                const batch = importQueue.getJobs().filter((job) => ids.has(job.id));
+                // Jobs cleared from the queue meanwhile count as done
+                const pending = batch.filter((job) => !isFinishedJob(job));
+                const done = total - pending.length;
+                const active = pending.find((job) => job.status === 'running');
+
+                onProgress({
+                    filename: active?.name ?? '',
+                    current: done,
+                    total,
+                    percentage: total ? Math.round(((done + (active?.progress ?? 0)) / total) * 100) : 100,
+                    stage: pending.length > 0 ? 'importing' : 'saved'
+                });
+
+                if (pending.length === 0) {
+                    this.batches.delete(ids);
+                    unsubscribe();
+                    resolve(batch);
+                }
+            };
+            const unsubscribe = importQueue.onChange(report);
+            report();
+        });
     }
 
 	private isComicFile(filename: string): boolean {
-		const ext = filename.split('.').pop()?.toLowerCase();
-		return ['cbz', 'cbr', 'zip', 'rar'].includes(ext || '');
+		return isSupportedFilename(filename);
 	}
 }
 
-export const uploadService = new UploadService();
\ No newline at end of file
+export const uploadService = new UploadService();
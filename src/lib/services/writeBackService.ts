@@ -0,0 +1,270 @@
+// Write-back for linked folders
+// With write-back turned on for a linked folder, renaming, moving and deleting its comics in
+// the library does the same on disk. Every change can be undone for UNDO_WINDOW; deletes only
+// reach the disk once that window has closed, or on the next rescan if the page was closed
+// first. Items keep their id throughout, so reading
+// progress, bookmarks and cached pages follow the file.
+
+import { comicStorage } from '../storage/comicStorage';
+import { isSupportedFilename, stripComicExtension } from '../archive/formatProvider';
+import { getParentPath, joinPath, resolveDirectoryHandle, resolveFileHandle } from '../utils/directoryWalker';
+import { undoStore } from '../store/undoStore';
+import { logger } from './logger';
+import type { FileSystemItem, LinkedFolder } from '../../types/comic';
+
+export class WriteBackError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'WriteBackError';
+	}
+}
+
+// Deletes still waiting for the disk, kept across reloads. The library entry is already gone,
+// so a delete lost with the page would bring the file back on the next rescan as a new comic.
+const PENDING_DELETES_KEY = 'writeBackPendingDeletes';
+
+function isNotFound(error: unknown): boolean {
+	return error instanceof DOMException && error.name === 'NotFoundError';
+}
+
+class WriteBackService {
+	// Deleted in the library, still on disk until the undo window closes. Keys are folderId/path.
+	private pendingDeletes = new Set<string>();
+	// Left over from an earlier page load, their undo window closed with it
+	private leftoverDeletes = new Set<string>();
+	private initPromise: Promise<void> | null = null;
+
+	init(): Promise<void> {
+		if (!this.initPromise) {
+			this.initPromise = this.restore().catch((error) => {
+				this.initPromise = null;
+				throw error;
+			});
+		}
+		return this.initPromise;
+	}
+
+	// Asks for readwrite access, which needs a user gesture
+	async enable(folder: LinkedFolder): Promise<boolean> {
+		const permission = await folder.handle.requestPermission({ mode: 'readwrite' });
+		if (permission !== 'granted') return false;
+
+		await comicStorage.saveLinkedFolder({ ...folder, writable: true });
+		logger.info('WriteBack', `Enabled for ${folder.name}`);
+		return true;
+	}
+
+	async disable(folder: LinkedFolder): Promise<void> {
+		await comicStorage.saveLinkedFolder({ ...folder, writable: false });
+		logger.info('WriteBack', `Disabled for ${folder.name}`);
+	}
+
+	// Rescans skip these so a pending delete doesn't come back as a new file
+	isPendingDelete(folderId: string, path: string): boolean {
+		return this.pendingDeletes.has(`${folderId}/${path}`);
+	}
+
+	// Finishes deletes the previous page load couldn't, if the folder may still be written
+	// without asking. The rest stay pending, and hidden from rescans, until a later try.
+	async finishPendingDeletes(folder: LinkedFolder): Promise<void> {
+		await this.init();
+		const prefix = `${folder.id}/`;
+		const keys = [...this.leftoverDeletes].filter((key) => key.startsWith(prefix));
+		if (keys.length === 0 || !folder.writable) return;
+		if ((await folder.handle.queryPermission({ mode: 'readwrite' })) !== 'granted') return;
+
+		for (const key of keys) {
+			try {
+				await this.removeFromDisk(folder, key.slice(prefix.length));
+				this.leftoverDeletes.delete(key);
+				await this.dropPendingDelete(key);
+			} catch (error) {
+				logger.warn('WriteBack', `Failed to delete ${key.slice(prefix.length)} from ${folder.name}`, error);
+			}
+		}
+	}
+
+	async rename(item: FileSystemItem, name: string): Promise<FileSystemItem> {
+		const newName = name.trim();
+		if (!newName || /[/\\]/.test(newName)) throw new WriteBackError('Enter a file name without slashes');
+		// Without a comic extension the next scan would no longer see the file
+		if (!isSupportedFilename(newName)) throw new WriteBackError(`Keep a comic file extension in "${newName}"`);
+
+		const folder = await this.requireWritable(item);
+		const source = item.source!;
+		const renamed = await this.moveOnDisk(folder, item, joinPath(getParentPath(source.path), newName), item.parentId ?? null);
+
+		undoStore.push(`Renamed "${item.name}" to "${newName}"`, async () => {
+			await this.moveOnDisk(folder, renamed, source.path, item.parentId ?? null);
+		});
+		return renamed;
+	}
+
+	// Moves a comic to another folder of the same linked folder
+	async move(item: FileSystemItem, targetFolderId: string | null): Promise<FileSystemItem> {
+		const target = targetFolderId ? await comicStorage.getItem(targetFolderId) : null;
+		if (!item.source || target?.type !== 'folder' || target.source?.folderId !== item.source.folderId) {
+			throw new WriteBackError('Linked comics can only move between folders of the same linked folder');
+		}
+
+		const folder = await this.requireWritable(item);
+		const source = item.source;
+		const moved = await this.moveOnDisk(folder, item, joinPath(target.source.path, item.name), target.id);
+
+		undoStore.push(`Moved "${item.name}" to "${target.name}"`, async () => {
+			await this.moveOnDisk(folder, moved, source.path, item.parentId ?? null);
+		});
+		return moved;
+	}
+
+	// Removes the comic from the library now and from disk when the undo window closes
+	async delete(item: FileSystemItem): Promise<void> {
+		const folder = await this.requireWritable(item);
+		const source = item.source!;
+		const [metadata, bookmarks] = await Promise.all([
+			comicStorage.getComicMetadata(item.id),
+			comicStorage.getBookmarks(item.id)
+		]);
+
+		const key = `${folder.id}/${source.path}`;
+		await this.init();
+		this.pendingDeletes.add(key);
+		await this.savePendingDeletes();
+		await comicStorage.deleteItem(item.id);
+
+		undoStore.push(
+			`Deleted "${item.name}"`,
+			async () => {
+				await this.dropPendingDelete(key);
+				await comicStorage.saveItems([item]);
+				if (metadata) await comicStorage.saveComicMetadata(metadata);
+				for (const bookmark of bookmarks) await comicStorage.saveBookmark(bookmark);
+			},
+			async () => {
+				try {
+					await this.removeFromDisk(folder, source.path);
+				} finally {
+					await this.dropPendingDelete(key);
+				}
+			}
+		);
+	}
+
+	private async restore(): Promise<void> {
+		const keys = (await comicStorage.getSetting<string[]>(PENDING_DELETES_KEY)) ?? [];
+		for (const key of keys) {
+			this.pendingDeletes.add(key);
+			this.leftoverDeletes.add(key);
+		}
+	}
+
+	private savePendingDeletes(): Promise<void> {
+		return comicStorage.saveSetting(PENDING_DELETES_KEY, [...this.pendingDeletes]);
+	}
+
+	private async dropPendingDelete(key: string): Promise<void> {
+		this.pendingDeletes.delete(key);
+		await this.savePendingDeletes();
+	}
+
+	private async removeFromDisk(folder: LinkedFolder, path: string): Promise<void> {
+		try {
+			const directory = await resolveDirectoryHandle(folder.handle, getParentPath(path));
+			await directory.removeEntry(path.slice(path.lastIndexOf('/') + 1));
+			logger.info('WriteBack', `Deleted ${path} from ${folder.name}`);
+		} catch (error) {
+			// Already gone is what we wanted
+			if (!isNotFound(error)) throw error;
+		}
+	}
+
+	private async requireWritable(item: FileSystemItem): Promise<LinkedFolder> {
+		if (!item.source) throw new WriteBackError(`"${item.name}" is not in a linked folder`);
+		if (item.type === 'folder') throw new WriteBackError('Organise the folders of a linked folder on disk, then rescan');
+
+		const folder = await comicStorage.getLinkedFolder(item.source.folderId);
+		if (!folder) throw new WriteBackError(`"${item.name}" is not in a linked folder`);
+		if (!folder.writable) throw new WriteBackError(`Turn on write-back for "${folder.name}" to change its files`);
+
+		const { handle } = folder;
+		if ((await handle.queryPermission({ mode: 'readwrite' })) !== 'granted' && (await handle.requestPermission({ mode: 'readwrite' })) !== 'granted') {
+			throw new WriteBackError(`No permission to change files in "${folder.name}"`);
+		}
+		return folder;
+	}
+
+	// Moves the file on disk, then points the item at its new location
+	private async moveOnDisk(folder: LinkedFolder, item: FileSystemItem, targetPath: string, parentId: string | null): Promise<FileSystemItem> {
+		const sourcePath = item.source!.path;
+		const name = targetPath.slice(targetPath.lastIndexOf('/') + 1);
+
+		let fileHandle: FileSystemFileHandle;
+		try {
+			fileHandle = await resolveFileHandle(folder.handle, sourcePath);
+		} catch (error) {
+			if (isNotFound(error)) throw new WriteBackError(`"${item.name}" is no longer on disk, rescan "${folder.name}"`);
+			throw error;
+		}
+		const sourceDirectory = await resolveDirectoryHandle(folder.handle, getParentPath(sourcePath));
+		const targetDirectory = await resolveDirectoryHandle(folder.handle, getParentPath(targetPath));
+
+		const existing = await targetDirectory.getFileHandle(name).catch(() => null);
+		// Case-only renames find the file itself on case-insensitive disks
+		const isSameFile = existing ? await existing.isSameEntry(fileHandle) : false;
+		if (existing && !isSameFile) throw new WriteBackError(`"${name}" already exists in that folder`);
+
+		await this.moveFile(fileHandle, sourceDirectory, targetDirectory, name, isSameFile);
+
+		const file = await (await targetDirectory.getFileHandle(name)).getFile();
+		const updated: FileSystemItem = {
+			...item,
+			name,
+			parentId,
+			size: file.size,
+			// A copied file gets a new modification time, record it so rescans see no change
+			source: { ...item.source!, path: targetPath, lastModified: file.lastModified },
+			updatedAt: Date.now()
+		};
+		await comicStorage.saveItems([updated]);
+
+		const comic = await comicStorage.getComicMetadata(item.id);
+		if (comic) await comicStorage.saveComicMetadata({ ...comic, title: stripComicExtension(name), filename: name });
+
+		logger.info('WriteBack', `Moved ${sourcePath} to ${targetPath} in ${folder.name}`);
+		return updated;
+	}
+
+	private async moveFile(
+		fileHandle: FileSystemFileHandle,
+		sourceDirectory: FileSystemDirectoryHandle,
+		targetDirectory: FileSystemDirectoryHandle,
+		name: string,
+		isSameFile: boolean
+	): Promise<void> {
+		if (fileHandle.move) {
+			try {
+				await fileHandle.move(targetDirectory, name);
+				return;
+			} catch (error) {
+				// Only fall back when the browser can't move user-visible files
+				if (!(error instanceof DOMException) || !['NotSupportedError', 'InvalidModificationError'].includes(error.name)) throw error;
+				logger.debug('WriteBack', 'Native move unavailable, copying instead', error);
+			}
+		}
+
+		// Copying onto itself would truncate the only copy
+		if (isSameFile) throw new WriteBackError('This browser cannot change only the case of a file name');
+
+		const file = await fileHandle.getFile();
+		const target = await targetDirectory.getFileHandle(name, { create: true });
+		try {
+			await file.stream().pipeTo(await target.createWritable());
+		} catch (error) {
+			await targetDirectory.removeEntry(name).catch(() => {});
+			throw error;
+		}
+		await sourceDirectory.removeEntry(fileHandle.name);
+	}
+}
+
+export const writeBack = new WriteBackService();
@@ -1,25 +1,87 @@
 // IndexedDB Storage Manager for Comic Files & Metadata
 // Unified storage for file blobs, metadata, and reading progress
 
-import type { ComicBook, FileSystemItem, BlobRecord } from '../../types/comic.js';
-import { calculateHash } from '../utils/hash.js';
+import type { ComicBook, FileSystemItem, BlobRecord, BlobChunk, ReadingDirection, Bookmark, ImportJob, LinkedFolder, ReadingSession } from '../../types/comic.js';
+import { calculateHash, type HashOptions } from '../utils/hash.js';
+import { resolveFileHandle } from '../utils/directoryWalker.js';
 import { logger } from '../services/logger.js';
 
+const PAGE_CACHE_BUDGET_KEY = 'page-cache-budget';
+const DEFAULT_PAGE_CACHE_BUDGET = 200 * 1024 * 1024;
+// Cache hits are written back in batches, not with a readwrite transaction per page turn
+const PAGE_ACCESS_FLUSH_DELAY = 2000;
+// Files are stored in pieces of this size, browsers struggle with multi-GB single values
+const BLOB_CHUNK_SIZE = 8 * 1024 * 1024;
+
+interface PageCacheRecord {
+	key: string;
+	comicId: string;
+	pageIndex: number;
+	blob: Blob;
+	size: number;
+	cachedAt: Date;
+	lastAccessed: number;
+}
+
+export interface PageCacheUsage {
+	bytes: number;
+	pages: number;
+	comics: number;
+	budget: number;
+}
+
+// Emitted after items or comic metadata are written or removed
+export interface StorageChange {
+	type: 'saved' | 'deleted';
+	ids: string[];
+}
+
+export interface SavedFile {
+	item: FileSystemItem;
+	duplicate: boolean; // An item with the same content existed, it is returned instead
+}
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+export interface StorageEstimate {
+	usage: number;
+	quota: number;
+	percentage: number;
+	pageCache: number; // Bytes held by extracted page blobs
+}
+
 class ComicStorageManager {
 	private dbName = 'ComicReaderFilesDB';
-	private dbVersion = 5; // Incremented for contentHash index
+	private dbVersion = 13; // Incremented for reading sessions
 	
 	// Stores
 	private storeName = 'comicFiles'; // Legacy
 	private itemsStoreName = 'items';
 	private blobsStoreName = 'blobs';
+	private blobChunksStoreName = 'blobChunks';
 	private pagesStoreName = 'comicPages';
 	private metadataStoreName = 'comicMetadata';
 	private settingsStoreName = 'settings';
+	private bookmarksStoreName = 'bookmarks';
+	private thumbnailsStoreName = 'pageThumbnails';
+	private importJobsStoreName = 'importJobs';
+	private linkedFoldersStoreName = 'linkedFolders';
+	private readingSessionsStoreName = 'readingSessions';
 
 	private db: IDBDatabase | null = null;
 	private initPromise: Promise<void> | null = null;
 
+	// Running total of cached page bytes, computed lazily on first use
+	private pageCacheBytes: number | null = null;
+	private pageCacheEviction: Promise<void> | null = null;
+	private pageAccessTimes = new Map<string, number>();
+	private pageAccessTimer: ReturnType<typeof setTimeout> | null = null;
+
+	// Saves of the same content, queued so one never deletes chunks another is still writing
+	private blobWrites = new Map<string, Promise<void>>();
+
+	private changeListeners = new Set<StorageChangeListener>();
+
 	async init(): Promise<void> {
 		if (this.db) return;
 		if (this.initPromise) return this.initPromise;
@@ -49,6 +111,18 @@ class ComicStorageManager {
 					if (!db.objectStoreNames.contains(this.pagesStoreName)) {
 						const pagesStore = db.createObjectStore(this.pagesStoreName, { keyPath: 'key' });
 						pagesStore.createIndex('comicId', 'comicId', { unique: false });
+					} else if (event.oldVersion < 6) {
+						// Backfill size and access time on pages cached before the budget existed
+						const cursorReq = tx.objectStore(this.pagesStoreName).openCursor();
+						cursorReq.onsuccess = () => {
+							const cursor = cursorReq.result;
+							if (!cursor) return;
+							const record = cursor.value as PageCacheRecord;
+							record.size = record.blob?.size ?? 0;
+							record.lastAccessed = record.cachedAt ? new Date(record.cachedAt).getTime() : Date.now();
+							cursor.update(record);
+							cursor.continue();
+						};
 					}
 					
 					// Settings Store
@@ -56,11 +130,37 @@ class ComicStorageManager {
 						db.createObjectStore(this.settingsStoreName);
 					}
 
+					if (!db.objectStoreNames.contains(this.bookmarksStoreName)) {
+						const bookmarksStore = db.createObjectStore(this.bookmarksStoreName, { keyPath: 'id' });
+						bookmarksStore.createIndex('comicId', 'comicId', { unique: false });
+					}
+
+					if (!db.objectStoreNames.contains(this.thumbnailsStoreName)) {
+						const thumbnailsStore = db.createObjectStore(this.thumbnailsStoreName, { keyPath: 'key' });
+						thumbnailsStore.createIndex('comicId', 'comicId', { unique: false });
+					}
+
+					if (!db.objectStoreNames.contains(this.importJobsStoreName)) {
+						db.createObjectStore(this.importJobsStoreName, { keyPath: 'id' });
+					}
+
+					if (!db.objectStoreNames.contains(this.linkedFoldersStoreName)) {
+						db.createObjectStore(this.linkedFoldersStoreName, { keyPath: 'id' });
+					}
+
+					if (!db.objectStoreNames.contains(this.readingSessionsStoreName)) {
+						const sessionsStore = db.createObjectStore(this.readingSessionsStoreName, { keyPath: 'id' });
+						sessionsStore.createIndex('comicId', 'comicId', { unique: false });
+						sessionsStore.createIndex('startedAt', 'startedAt', { unique: false });
+					}
+
 					// File System Stores (Merged from fileSystem.ts)
 					if (!db.objectStoreNames.contains(this.itemsStoreName)) {
 						const itemStore = db.createObjectStore(this.itemsStoreName, { keyPath: 'id' });
 						itemStore.createIndex('updatedAt', 'updatedAt', { unique: false });
 						itemStore.createIndex('contentHash', 'contentHash', { unique: false });
+						itemStore.createIndex('parentId', 'parentId', { unique: false });
+						itemStore.createIndex('sourceFolderId', 'source.folderId', { unique: false });
 					} else {
 						// Ensure indexes exist if store existed
 						const itemStore = tx.objectStore(this.itemsStoreName);
@@ -70,10 +170,22 @@ class ComicStorageManager {
 						if (!itemStore.indexNames.contains('contentHash')) {
 							itemStore.createIndex('contentHash', 'contentHash', { unique: false });
 						}
+						if (!itemStore.indexNames.contains('parentId')) {
+							itemStore.createIndex('parentId', 'parentId', { unique: false });
+						}
+						if (!itemStore.indexNames.contains('sourceFolderId')) {
+							itemStore.createIndex('sourceFolderId', 'source.folderId', { unique: false });
+						}
 					}
 
 					if (!db.objectStoreNames.contains(this.blobsStoreName)) {
 						db.createObjectStore(this.blobsStoreName, { keyPath: 'hash' });
+					} else if (event.oldVersion < 10) {
+						db.createObjectStore(this.blobChunksStoreName, { keyPath: ['hash', 'index'] });
+						this.migrateBlobsToChunks(tx);
+					}
+					if (!db.objectStoreNames.contains(this.blobChunksStoreName)) {
+						db.createObjectStore(this.blobChunksStoreName, { keyPath: ['hash', 'index'] });
 					}
 				};
 			});
@@ -82,19 +194,66 @@ class ComicStorageManager {
 		return this.initPromise;
 	}
 
+	// Splits blobs stored as one ArrayBuffer (before version 10) into chunks plus a manifest
+	private migrateBlobsToChunks(tx: IDBTransaction): void {
+		const blobStore = tx.objectStore(this.blobsStoreName);
+		const chunkStore = tx.objectStore(this.blobChunksStoreName);
+
+		const cursorReq = blobStore.openCursor();
+		cursorReq.onsuccess = () => {
+			const cursor = cursorReq.result;
+			if (!cursor) return;
+
+			const { hash, data, refCount } = cursor.value as { hash: string; data?: ArrayBuffer; refCount: number };
+			if (data) {
+				const chunkCount = Math.ceil(data.byteLength / BLOB_CHUNK_SIZE);
+				for (let index = 0; index < chunkCount; index++) {
+					const start = index * BLOB_CHUNK_SIZE;
+					const end = Math.min(start + BLOB_CHUNK_SIZE, data.byteLength);
+					const chunk: BlobChunk = { hash, index, data: new Blob([new Uint8Array(data, start, end - start)]) };
+					chunkStore.put(chunk);
+				}
+				const manifest: BlobRecord = { hash, size: data.byteLength, chunkSize: BLOB_CHUNK_SIZE, chunkCount, refCount };
+				cursor.update(manifest);
+			}
+			cursor.continue();
+		};
+	}
+
 	private async ensureDB(): Promise<IDBDatabase> {
 		if (!this.db) await this.init();
 		if (!this.db) throw new Error('Database not initialized');
 		return this.db;
 	}
 
+	// --- Change Notifications ---
+
+	onChange(listener: StorageChangeListener): () => void {
+		this.changeListeners.add(listener);
+		return () => this.changeListeners.delete(listener);
+	}
+
+	private notifyChange(type: StorageChange['type'], ids: string[]): void {
+		for (const listener of this.changeListeners) {
+			try {
+				listener({ type, ids });
+			} catch (error) {
+				logger.error('ComicStorage', 'Change listener failed', error);
+			}
+		}
+	}
+
 	// --- File System Operations ---
 
-	async findDuplicate(file: File): Promise<FileSystemItem | undefined> {
+	async findDuplicate(file: File, hashOptions?: HashOptions): Promise<FileSystemItem | undefined> {
+		const hash = await calculateHash(file, hashOptions);
+		return this.getItemByHash(hash);
+	}
+
+	async getItemByHash(hash: string): Promise<FileSystemItem | undefined> {
 		const db = await this.ensureDB();
-		const hash = await calculateHash(file);
 
-		return new Promise<FileSystemItem | undefined>((resolve, reject) => {
+		return new Promise<FileSystemItem | undefined>((resolve) => {
 			const tx = db.transaction(this.itemsStoreName, 'readonly');
 			const store = tx.objectStore(this.itemsStoreName);
 			
@@ -109,80 +268,153 @@ class ComicStorageManager {
 		});
 	}
 
-	async saveFile(file: File, options?: { thumbnail?: string }): Promise<FileSystemItem> {
+	// Saves of the same content run one at a time, so of two parallel imports of one file
+	// the second finds the item the first created and comes back as a duplicate
+	async saveFile(file: File, options?: { thumbnail?: string; parentId?: string | null }): Promise<SavedFile> {
 		const db = await this.ensureDB();
 		const hash = await calculateHash(file);
 
-        // 0. Check for existing file (Deduplication via Index)
-        const existingItem = await new Promise<FileSystemItem | undefined>((resolve) => {
-            const tx = db.transaction(this.itemsStoreName, 'readonly');
-            const store = tx.objectStore(this.itemsStoreName);
-            // We need to check if the index exists, assuming init() ran it should.
-            if (store.indexNames.contains('contentHash')) {
-                const index = store.index('contentHash');
-                const req = index.get(hash);
-                req.onsuccess = () => resolve(req.result);
-                req.onerror = () => resolve(undefined);
-            } else {
-                // Fallback scan if migration failed for some reason (unlikely)
-                resolve(undefined);
-            }
-        });
-
-        if (existingItem) {
-            logger.info('ComicStorage', `Duplicate file detected, returning existing: ${existingItem.name}`);
-            return existingItem;
-        }
-
-		const buffer = await file.arrayBuffer();
-
-		// 1. Check/Save Blob (Deduplication)
-		await new Promise<void>((resolve, reject) => {
-			const tx = db.transaction(this.blobsStoreName, 'readwrite');
-			const store = tx.objectStore(this.blobsStoreName);
-			const getReq = store.get(hash);
+		return this.withHashLock(hash, async () => {
+			// 0. Check for existing file (Deduplication via Index)
+			const existingItem = await this.getItemByHash(hash);
+			if (existingItem) {
+				logger.info('ComicStorage', `Duplicate file detected, returning existing: ${existingItem.name}`);
+				return { item: existingItem, duplicate: true };
+			}
 
-			getReq.onsuccess = () => {
-				const record = getReq.result as BlobRecord;
-				if (record) {
-					record.refCount++;
-					store.put(record);
-				} else {
-					store.add({
-						hash,
-						data: buffer,
-						refCount: 1
-					} as BlobRecord);
-				}
+			// 1. Create File Entry
+			const item: FileSystemItem = {
+				id: crypto.randomUUID(),
+				name: file.name,
+				type: 'file',
+				parentId: options?.parentId ?? null,
+				contentHash: hash,
+				size: file.size,
+				mimeType: file.type,
+				thumbnail: options?.thumbnail,
+				createdAt: Date.now(),
+				updatedAt: Date.now()
 			};
-			
-			tx.oncomplete = () => resolve();
-			tx.onerror = () => reject(new Error('Failed to save blob'));
+
+			// 2. Store the content unless another item already references it (Deduplication)
+			await this.writeBlobReference(hash, file, (pending) => new Promise((resolve, reject) => {
+				const tx = db.transaction([this.itemsStoreName, this.blobsStoreName], 'readwrite');
+				this.addBlobReference(tx, hash, pending);
+				tx.objectStore(this.itemsStoreName).add(item);
+
+				tx.oncomplete = () => resolve();
+				tx.onabort = () => reject(new Error('Failed to save file item'));
+			}));
+
+			this.notifyChange('saved', [item.id]);
+			return { item, duplicate: false };
 		});
+	}
 
-		// 2. Create File Entry
-		const item: FileSystemItem = {
-			id: crypto.randomUUID(),
-			name: file.name,
-			type: 'file',
-			contentHash: hash,
-			size: file.size,
-			mimeType: file.type,
-			thumbnail: options?.thumbnail,
-			createdAt: Date.now(),
-			updatedAt: Date.now()
-		};
+	// --- Blob Chunks ---
+
+	// Every chunk of one blob, chunk keys are [hash, index]
+	private chunkRange(hash: string): IDBKeyRange {
+		return IDBKeyRange.bound([hash, 0], [hash, Number.MAX_SAFE_INTEGER]);
+	}
 
+	private async hasBlob(hash: string): Promise<boolean> {
+		const db = await this.ensureDB();
 		return new Promise((resolve, reject) => {
-			const tx = db.transaction(this.itemsStoreName, 'readwrite');
-			const store = tx.objectStore(this.itemsStoreName);
-			const request = store.add(item);
+			const tx = db.transaction(this.blobsStoreName, 'readonly');
+			const req = tx.objectStore(this.blobsStoreName).count(hash);
+			req.onsuccess = () => resolve(req.result > 0);
+			req.onerror = () => reject(new Error('Failed to check blob'));
+		});
+	}
+
+	// Writes the chunks of new content, one transaction each so memory stays flat, and returns
+	// its manifest. The manifest is only written by addBlobReference, together with the item
+	// that references it, so a blob is never visible before all of its chunks are.
+	private async writeChunks(hash: string, data: Blob): Promise<BlobRecord> {
+		const db = await this.ensureDB();
+		const chunkCount = Math.ceil(data.size / BLOB_CHUNK_SIZE);
 
-			request.onsuccess = () => resolve(item);
-			request.onerror = () => reject(new Error('Failed to save file item'));
+		try {
+			for (let index = 0; index < chunkCount; index++) {
+				const start = index * BLOB_CHUNK_SIZE;
+				const chunk: BlobChunk = { hash, index, data: data.slice(start, start + BLOB_CHUNK_SIZE) };
+				await new Promise<void>((resolve, reject) => {
+					const tx = db.transaction(this.blobChunksStoreName, 'readwrite');
+					tx.objectStore(this.blobChunksStoreName).put(chunk);
+					tx.oncomplete = () => resolve();
+					tx.onabort = () => reject(tx.error ?? new Error('Failed to save blob chunk'));
+				});
+			}
+		} catch (error) {
+			// Don't leave a partial copy behind
+			await this.deleteChunks(hash).catch(() => {});
+			throw error;
+		}
+
+		return { hash, size: data.size, chunkSize: BLOB_CHUNK_SIZE, chunkCount, refCount: 0 };
+	}
+
+	// Runs `task` once earlier tasks for the same hash have finished
+	private async withHashLock<T>(hash: string, task: () => Promise<T>): Promise<T> {
+		const previous = this.blobWrites.get(hash) ?? Promise.resolve();
+		const write = previous.then(task);
+
+		const settled = write.then(() => {}, () => {});
+		this.blobWrites.set(hash, settled);
+		try {
+			return await write;
+		} finally {
+			if (this.blobWrites.get(hash) === settled) this.blobWrites.delete(hash);
+		}
+	}
+
+	// Runs `reference` (a transaction calling addBlobReference) after writing the chunks of
+	// `data` when the blob isn't stored yet. Chunks whose manifest never got written (the
+	// transaction aborted) are deleted again. Call with the hash locked (withHashLock).
+	private async writeBlobReference(
+		hash: string,
+		data: Blob | undefined,
+		reference: (pending?: BlobRecord) => Promise<void>
+	): Promise<void> {
+		const pending = data && !(await this.hasBlob(hash)) ? await this.writeChunks(hash, data) : undefined;
+		try {
+			await reference(pending);
+		} catch (error) {
+			if (pending) await this.deleteChunks(hash).catch(() => {});
+			throw error;
+		}
+	}
+
+	private async deleteChunks(hash: string): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.blobChunksStoreName, 'readwrite');
+			tx.objectStore(this.blobChunksStoreName).delete(this.chunkRange(hash));
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to delete blob chunks'));
 		});
 	}
 
+	// Adds one reference to a blob within `tx`, creating its manifest from `pending` when the
+	// content was just written. Aborts the transaction if the blob exists nowhere.
+	private addBlobReference(tx: IDBTransaction, hash: string, pending?: BlobRecord): void {
+		const blobStore = tx.objectStore(this.blobsStoreName);
+		const getReq = blobStore.get(hash);
+		getReq.onsuccess = () => {
+			const record = getReq.result as BlobRecord | undefined;
+			if (record) {
+				// Also covers a concurrent save of the same content that finished first
+				record.refCount++;
+				blobStore.put(record);
+			} else if (pending) {
+				blobStore.add({ ...pending, refCount: 1 });
+			} else {
+				tx.abort();
+			}
+		};
+	}
+
 	async getAllFiles(): Promise<FileSystemItem[]> {
 		const db = await this.ensureDB();
 		return new Promise((resolve, reject) => {
@@ -230,24 +462,76 @@ class ComicStorageManager {
 		const db = await this.ensureDB();
 		
 		const item = await this.getItem(id);
+		if (item?.source) return this.getLinkedFile(item);
 		if (!item || !item.contentHash) return null;
 
-		const blobRecord = await new Promise<BlobRecord>((resolve, reject) => {
-			const tx = db.transaction(this.blobsStoreName, 'readonly');
-			const store = tx.objectStore(this.blobsStoreName);
-			const req = store.get(item.contentHash!);
-			req.onsuccess = () => resolve(req.result);
-			req.onerror = () => reject(new Error('Failed to get blob'));
-		});
+		const blob = await this.getBlob(item.contentHash);
+		if (!blob) return null;
 
-		if (!blobRecord) return null;
-
-		return new File([blobRecord.data], item.name, {
+		return new File([blob], item.name, {
 			type: item.mimeType || 'application/octet-stream',
 			lastModified: item.updatedAt
 		});
 	}
 
+	// Files and folders, e.g. for backups
+	async getAllItems(): Promise<FileSystemItem[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.itemsStoreName, 'readonly');
+			const request = tx.objectStore(this.itemsStoreName).getAll();
+			request.onsuccess = () => resolve(request.result as FileSystemItem[]);
+			request.onerror = () => reject(new Error('Failed to list items'));
+		});
+	}
+
+	// Stored content by hash. The chunks stay disk-backed, so reading the result
+	// (e.g. through stream()) never loads the whole file into memory.
+	async getBlob(hash: string): Promise<Blob | null> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction([this.blobsStoreName, this.blobChunksStoreName], 'readonly');
+			const manifestReq = tx.objectStore(this.blobsStoreName).get(hash);
+			const chunksReq = tx.objectStore(this.blobChunksStoreName).getAll(this.chunkRange(hash));
+
+			tx.oncomplete = () => {
+				const manifest = manifestReq.result as BlobRecord | undefined;
+				if (!manifest) return resolve(null);
+
+				const chunks = chunksReq.result as BlobChunk[];
+				if (chunks.length !== manifest.chunkCount) {
+					return reject(new Error(`Blob ${hash} is incomplete (${chunks.length}/${manifest.chunkCount} chunks)`));
+				}
+				resolve(new Blob(chunks.map((chunk) => chunk.data)));
+			};
+			tx.onerror = () => reject(new Error('Failed to get blob'));
+		});
+	}
+
+	// Writes an item as-is (e.g. from a backup), adding a reference to its blob.
+	// `data` is only needed when the blob isn't stored yet.
+	async restoreItem(item: FileSystemItem, data?: Blob): Promise<void> {
+		const db = await this.ensureDB();
+		const hash = item.contentHash;
+		const save = (pending?: BlobRecord) => new Promise<void>((resolve, reject) => {
+			const stores = hash ? [this.itemsStoreName, this.blobsStoreName] : [this.itemsStoreName];
+			const tx = db.transaction(stores, 'readwrite');
+
+			if (hash) {
+				this.addBlobReference(tx, hash, pending);
+			}
+
+			tx.objectStore(this.itemsStoreName).put(item);
+
+			tx.oncomplete = () => resolve();
+			tx.onabort = () => reject(new Error(`No data for ${item.name}`));
+			tx.onerror = () => reject(new Error(`Failed to restore ${item.name}`));
+		});
+
+		await (hash ? this.withHashLock(hash, () => this.writeBlobReference(hash, data, save)) : save());
+		this.notifyChange('saved', [item.id]);
+	}
+
 	async getItem(id: string): Promise<FileSystemItem | null> {
 		const db = await this.ensureDB();
 		return new Promise((resolve, reject) => {
@@ -260,60 +544,506 @@ class ComicStorageManager {
 	}
 
 	async deleteComic(id: string): Promise<void> {
+		const item = await this.getItem(id);
+		if (!item) return;
+		await this.removeItems([item]);
+		logger.info('ComicStorage', `Comic deleted: ${id}`);
+	}
+
+	// --- Folder Operations ---
+
+	async createFolder(name: string, parentId: string | null = null): Promise<FileSystemItem> {
 		const db = await this.ensureDB();
-		
-		// 1. Get Item to find Hash
+		const folderName = name.trim();
+		if (!folderName) throw new Error('Folder name cannot be empty');
+		if (parentId) await this.requireFolder(parentId);
+
+		const folder: FileSystemItem = {
+			id: crypto.randomUUID(),
+			name: folderName,
+			type: 'folder',
+			parentId,
+			size: 0,
+			mimeType: 'inode/directory',
+			createdAt: Date.now(),
+			updatedAt: Date.now()
+		};
+
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.itemsStoreName, 'readwrite');
+			const request = tx.objectStore(this.itemsStoreName).add(folder);
+			request.onsuccess = () => {
+				this.notifyChange('saved', [folder.id]);
+				resolve(folder);
+			};
+			request.onerror = () => reject(new Error('Failed to create folder'));
+		});
+	}
+
+	// Folders first, then files, each sorted by name
+	async getChildren(parentId: string | null = null): Promise<FileSystemItem[]> {
+		const db = await this.ensureDB();
+		const children = await new Promise<FileSystemItem[]>((resolve, reject) => {
+			const tx = db.transaction(this.itemsStoreName, 'readonly');
+			const store = tx.objectStore(this.itemsStoreName);
+
+			// Root items have no parentId, which IndexedDB leaves out of the index
+			const request = parentId
+				? store.index('parentId').getAll(IDBKeyRange.only(parentId))
+				: store.getAll();
+
+			request.onsuccess = () => {
+				const items = request.result as FileSystemItem[];
+				resolve(parentId ? items : items.filter((item) => !item.parentId));
+			};
+			request.onerror = () => reject(new Error('Failed to list folder'));
+		});
+
+		return children.sort((a, b) => {
+			if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+			return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+		});
+	}
+
+	// Ancestors of a folder from the root down, including the folder itself
+	async getFolderPath(folderId: string | null): Promise<FileSystemItem[]> {
+		const path: FileSystemItem[] = [];
+		const seen = new Set<string>();
+		let currentId = folderId;
+
+		while (currentId && !seen.has(currentId)) {
+			seen.add(currentId);
+			const folder = await this.getItem(currentId);
+			if (!folder) break;
+			path.unshift(folder);
+			currentId = folder.parentId ?? null;
+		}
+
+		return path;
+	}
+
+	async renameItem(id: string, name: string): Promise<FileSystemItem> {
+		const newName = name.trim();
+		if (!newName) throw new Error('Name cannot be empty');
+
 		const item = await this.getItem(id);
-		
-		// 2. Transaction across all stores
+		if (!item) throw new Error('Item not found');
+
+		return this.putItem({ ...item, name: newName, updatedAt: Date.now() });
+	}
+
+	async moveItem(id: string, parentId: string | null): Promise<FileSystemItem> {
+		const item = await this.getItem(id);
+		if (!item) throw new Error('Item not found');
+		if ((item.parentId ?? null) === parentId) return item;
+
+		if (parentId) {
+			await this.requireFolder(parentId);
+			// A folder can't be moved into itself or one of its descendants
+			const targetPath = await this.getFolderPath(parentId);
+			if (targetPath.some((folder) => folder.id === id)) {
+				throw new Error('Cannot move a folder into itself');
+			}
+		}
+
+		return this.putItem({ ...item, parentId, updatedAt: Date.now() });
+	}
+
+	// Deletes a file, or a folder together with everything inside it
+	async deleteItem(id: string): Promise<void> {
+		const item = await this.getItem(id);
+		if (!item) return;
+
+		const items = item.type === 'folder' ? [item, ...(await this.getDescendants(id))] : [item];
+		await this.removeItems(items);
+		logger.info('ComicStorage', `Deleted ${item.type} ${id} (${items.length} items)`);
+	}
+
+	private async getDescendants(folderId: string): Promise<FileSystemItem[]> {
+		const descendants: FileSystemItem[] = [];
+		const pending = [folderId];
+		const seen = new Set<string>(pending);
+
+		while (pending.length > 0) {
+			const children = await this.getChildren(pending.pop()!);
+			for (const child of children) {
+				if (seen.has(child.id)) continue;
+				seen.add(child.id);
+				descendants.push(child);
+				if (child.type === 'folder') pending.push(child.id);
+			}
+		}
+
+		return descendants;
+	}
+
+	private async requireFolder(id: string): Promise<FileSystemItem> {
+		const folder = await this.getItem(id);
+		if (!folder || folder.type !== 'folder') throw new Error('Target folder not found');
+		return folder;
+	}
+
+	private async putItem(item: FileSystemItem): Promise<FileSystemItem> {
+		const db = await this.ensureDB();
 		return new Promise((resolve, reject) => {
-			const stores = [this.itemsStoreName, this.metadataStoreName, this.pagesStoreName];
+			const tx = db.transaction(this.itemsStoreName, 'readwrite');
+			tx.objectStore(this.itemsStoreName).put(item);
+			tx.oncomplete = () => {
+				this.notifyChange('saved', [item.id]);
+				resolve(item);
+			};
+			tx.onerror = () => reject(new Error('Failed to update item'));
+		});
+	}
+
+	// Removes items with their metadata and cached pages in one transaction,
+	// releasing one blob reference per file
+	private async removeItems(items: FileSystemItem[]): Promise<void> {
+		const db = await this.ensureDB();
+
+		const releases = new Map<string, number>();
+		for (const item of items) {
+			if (item.contentHash) {
+				releases.set(item.contentHash, (releases.get(item.contentHash) ?? 0) + 1);
+			}
+		}
+
+		return new Promise((resolve, reject) => {
+			const stores = [
+				this.itemsStoreName,
+				this.metadataStoreName,
+				this.pagesStoreName,
+				this.bookmarksStoreName,
+				this.thumbnailsStoreName
+			];
 			// Only include blobs if we have a hash to check
-			if (item?.contentHash) {
-				stores.push(this.blobsStoreName);
+			if (releases.size > 0) {
+				stores.push(this.blobsStoreName, this.blobChunksStoreName);
 			}
-			
+
 			const tx = db.transaction(stores, 'readwrite');
+			const pagesStore = tx.objectStore(this.pagesStoreName);
+			const bookmarksStore = tx.objectStore(this.bookmarksStoreName);
+			const thumbnailsStore = tx.objectStore(this.thumbnailsStoreName);
+
+			// Everything stored per comic is keyed by comicId
+			const deleteByComic = (store: IDBObjectStore, comicId: string) => {
+				const req = store.index('comicId').openKeyCursor(IDBKeyRange.only(comicId));
+				req.onsuccess = () => {
+					const cursor = req.result;
+					if (cursor) {
+						store.delete(cursor.primaryKey);
+						cursor.continue();
+					}
+				};
+			};
 
-			// Delete Item & Metadata
-			tx.objectStore(this.itemsStoreName).delete(id);
-			tx.objectStore(this.metadataStoreName).delete(id);
-            // We should also delete cached pages for this comic
-            // Index deletion is harder, usually we just let them stale or need a cursor
-            // For now, let's leave pages or clear them if we can efficiently. 
-            // Clearing pages by index requires opening a cursor on the index.
-            const pagesIndex = tx.objectStore(this.pagesStoreName).index('comicId');
-            const pagesReq = pagesIndex.openKeyCursor(IDBKeyRange.only(id));
-            pagesReq.onsuccess = () => {
-                const cursor = pagesReq.result;
-                if (cursor) {
-                    tx.objectStore(this.pagesStoreName).delete(cursor.primaryKey);
-                    cursor.continue();
-                }
-            };
+			for (const item of items) {
+				tx.objectStore(this.itemsStoreName).delete(item.id);
+				if (item.type === 'folder') continue;
+
+				tx.objectStore(this.metadataStoreName).delete(item.id);
+				deleteByComic(pagesStore, item.id);
+				deleteByComic(bookmarksStore, item.id);
+				deleteByComic(thumbnailsStore, item.id);
+			}
 
 			// Handle Blob Reference Counting
-			if (item?.contentHash) {
+			if (releases.size > 0) {
 				const blobStore = tx.objectStore(this.blobsStoreName);
-				const getBlob = blobStore.get(item.contentHash);
-				getBlob.onsuccess = () => {
-					const blobRecord = getBlob.result as BlobRecord;
-					if (blobRecord) {
-						blobRecord.refCount--;
-						if (blobRecord.refCount <= 0) {
-							blobStore.delete(item.contentHash!);
-						} else {
-							blobStore.put(blobRecord);
+				for (const [hash, count] of releases) {
+					const getBlob = blobStore.get(hash);
+					getBlob.onsuccess = () => {
+						const blobRecord = getBlob.result as BlobRecord;
+						if (blobRecord) {
+							blobRecord.refCount -= count;
+							if (blobRecord.refCount <= 0) {
+								blobStore.delete(hash);
+								tx.objectStore(this.blobChunksStoreName).delete(this.chunkRange(hash));
+							} else {
+								blobStore.put(blobRecord);
+							}
 						}
+					};
+				}
+			}
+
+			tx.oncomplete = () => {
+				// Cached pages went with it, recount on next use
+				this.pageCacheBytes = null;
+				this.notifyChange('deleted', items.map((item) => item.id));
+				resolve();
+			};
+			tx.onerror = () => reject(new Error('Failed to delete items'));
+		});
+	}
+
+	// --- Linked Folders ---
+
+	async getLinkedFolders(): Promise<LinkedFolder[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.linkedFoldersStoreName, 'readonly');
+			const request = tx.objectStore(this.linkedFoldersStoreName).getAll();
+			request.onsuccess = () => {
+				const folders = request.result as LinkedFolder[];
+				resolve(folders.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })));
+			};
+			request.onerror = () => reject(new Error('Failed to load linked folders'));
+		});
+	}
+
+	async getLinkedFolder(id: string): Promise<LinkedFolder | null> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.linkedFoldersStoreName, 'readonly');
+			const request = tx.objectStore(this.linkedFoldersStoreName).get(id);
+			request.onsuccess = () => resolve((request.result as LinkedFolder) || null);
+			request.onerror = () => reject(new Error('Failed to load linked folder'));
+		});
+	}
+
+	async saveLinkedFolder(folder: LinkedFolder): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.linkedFoldersStoreName, 'readwrite');
+			tx.objectStore(this.linkedFoldersStoreName).put(folder);
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to save linked folder'));
+		});
+	}
+
+	// Forgets a linked folder and everything indexed from it, the files on disk stay
+	async deleteLinkedFolder(id: string): Promise<void> {
+		const db = await this.ensureDB();
+		await this.removeItems(await this.getLinkedItems(id));
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.linkedFoldersStoreName, 'readwrite');
+			tx.objectStore(this.linkedFoldersStoreName).delete(id);
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to delete linked folder'));
+		});
+	}
+
+	// Every item indexed from a linked folder, including the folder's own item
+	async getLinkedItems(folderId: string): Promise<FileSystemItem[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.itemsStoreName, 'readonly');
+			const request = tx.objectStore(this.itemsStoreName).index('sourceFolderId').getAll(IDBKeyRange.only(folderId));
+			request.onsuccess = () => resolve(request.result as FileSystemItem[]);
+			request.onerror = () => reject(new Error('Failed to list linked items'));
+		});
+	}
+
+	// Writes items without blob content (linked files and folders) in one transaction
+	async saveItems(items: FileSystemItem[]): Promise<void> {
+		if (items.length === 0) return;
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.itemsStoreName, 'readwrite');
+			const store = tx.objectStore(this.itemsStoreName);
+			for (const item of items) store.put(item);
+			tx.oncomplete = () => {
+				this.notifyChange('saved', items.map((item) => item.id));
+				resolve();
+			};
+			tx.onerror = () => reject(new Error('Failed to save items'));
+		});
+	}
+
+	// Reads a linked file from disk, asking for access again if the browser dropped it.
+	// Returns null when the file is no longer where the last scan found it.
+	private async getLinkedFile(item: FileSystemItem): Promise<File | null> {
+		const folder = await this.getLinkedFolder(item.source!.folderId);
+		if (!folder) return null;
+
+		const { handle } = folder;
+		if ((await handle.queryPermission({ mode: 'read' })) !== 'granted' && (await handle.requestPermission({ mode: 'read' })) !== 'granted') {
+			throw new Error(`No permission to read the folder "${folder.name}"`);
+		}
+
+		try {
+			const fileHandle = await resolveFileHandle(handle, item.source!.path);
+			return await fileHandle.getFile();
+		} catch (error) {
+			if (error instanceof DOMException && error.name === 'NotFoundError') return null;
+			throw error;
+		}
+	}
+
+	// The file behind a comic changed: drop its page list and cached pages, keep the progress
+	async resetComicContent(id: string): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction([this.metadataStoreName, this.pagesStoreName, this.thumbnailsStoreName], 'readwrite');
+			const metadataStore = tx.objectStore(this.metadataStoreName);
+			const request = metadataStore.get(id);
+			request.onsuccess = () => {
+				const comic = request.result as ComicBook | undefined;
+				if (comic) metadataStore.put({ ...comic, pages: [], coverThumbnail: undefined });
+			};
+
+			for (const storeName of [this.pagesStoreName, this.thumbnailsStoreName]) {
+				const store = tx.objectStore(storeName);
+				const cursorReq = store.index('comicId').openKeyCursor(IDBKeyRange.only(id));
+				cursorReq.onsuccess = () => {
+					const cursor = cursorReq.result;
+					if (cursor) {
+						store.delete(cursor.primaryKey);
+						cursor.continue();
 					}
 				};
 			}
 
 			tx.oncomplete = () => {
-				logger.info('ComicStorage', `Comic deleted: ${id}`);
+				this.pageCacheBytes = null;
+				this.notifyChange('saved', [id]);
 				resolve();
 			};
-			tx.onerror = () => reject(new Error('Failed to delete comic'));
+			tx.onerror = () => reject(new Error(`Failed to reset ${id}`));
+		});
+	}
+
+	// Moves reading progress and bookmarks kept under an old comic id to a new one
+	async relinkComicMetadata(fromId: string, toId: string): Promise<boolean> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction([this.metadataStoreName, this.bookmarksStoreName], 'readwrite');
+			const metadataStore = tx.objectStore(this.metadataStoreName);
+			const bookmarksStore = tx.objectStore(this.bookmarksStoreName);
+			let found = false;
+
+			const request = metadataStore.get(fromId);
+			request.onsuccess = () => {
+				const comic = request.result as ComicBook | undefined;
+				if (!comic) return;
+				found = true;
+				metadataStore.put({ ...comic, id: toId });
+				metadataStore.delete(fromId);
+			};
+
+			const cursorReq = bookmarksStore.index('comicId').openCursor(IDBKeyRange.only(fromId));
+			cursorReq.onsuccess = () => {
+				const cursor = cursorReq.result;
+				if (cursor) {
+					cursor.update({ ...(cursor.value as Bookmark), comicId: toId });
+					cursor.continue();
+				}
+			};
+
+			tx.oncomplete = () => {
+				if (found) this.notifyChange('saved', [toId]);
+				resolve(found);
+			};
+			tx.onerror = () => reject(new Error(`Failed to relink ${fromId}`));
+		});
+	}
+
+	// --- Import Queue ---
+
+	async getImportJobs(): Promise<ImportJob[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.importJobsStoreName, 'readonly');
+			const request = tx.objectStore(this.importJobsStoreName).getAll();
+			request.onsuccess = () => {
+				const jobs = request.result as ImportJob[];
+				resolve(jobs.sort((a, b) => a.createdAt - b.createdAt));
+			};
+			request.onerror = () => reject(new Error('Failed to load import jobs'));
+		});
+	}
+
+	async saveImportJob(job: ImportJob): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.importJobsStoreName, 'readwrite');
+			tx.objectStore(this.importJobsStoreName).put(job);
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to save import job'));
+		});
+	}
+
+	async deleteImportJobs(ids: string[]): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.importJobsStoreName, 'readwrite');
+			const store = tx.objectStore(this.importJobsStoreName);
+			for (const id of ids) store.delete(id);
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to delete import jobs'));
+		});
+	}
+
+	// --- Reading Sessions ---
+	// Append-only, deleting a comic keeps its history in the statistics
+
+	async addReadingSession(session: ReadingSession): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.readingSessionsStoreName, 'readwrite');
+			tx.objectStore(this.readingSessionsStoreName).add(session);
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to save reading session'));
+		});
+	}
+
+	// Oldest first, optionally only those started at or after `since`
+	async getReadingSessions(since?: number): Promise<ReadingSession[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.readingSessionsStoreName, 'readonly');
+			const index = tx.objectStore(this.readingSessionsStoreName).index('startedAt');
+			const request = index.getAll(since === undefined ? undefined : IDBKeyRange.lowerBound(since));
+			request.onsuccess = () => resolve(request.result as ReadingSession[]);
+			request.onerror = () => reject(new Error('Failed to load reading sessions'));
+		});
+	}
+
+	// --- Bookmarks ---
+
+	async getBookmarks(comicId: string): Promise<Bookmark[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.bookmarksStoreName, 'readonly');
+			const index = tx.objectStore(this.bookmarksStoreName).index('comicId');
+			const request = index.getAll(IDBKeyRange.only(comicId));
+			request.onsuccess = () => {
+				const bookmarks = request.result as Bookmark[];
+				resolve(bookmarks.sort((a, b) => a.pageIndex - b.pageIndex));
+			};
+			request.onerror = () => reject(new Error('Failed to load bookmarks'));
+		});
+	}
+
+	async getAllBookmarks(): Promise<Bookmark[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.bookmarksStoreName, 'readonly');
+			const request = tx.objectStore(this.bookmarksStoreName).getAll();
+			request.onsuccess = () => resolve(request.result as Bookmark[]);
+			request.onerror = () => reject(new Error('Failed to list bookmarks'));
+		});
+	}
+
+	async saveBookmark(bookmark: Bookmark): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.bookmarksStoreName, 'readwrite');
+			tx.objectStore(this.bookmarksStoreName).put(bookmark);
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to save bookmark'));
+		});
+	}
+
+	async deleteBookmark(id: string): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.bookmarksStoreName, 'readwrite');
+			tx.objectStore(this.bookmarksStoreName).delete(id);
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to delete bookmark'));
 		});
 	}
 
@@ -361,6 +1091,48 @@ class ComicStorageManager {
 		});
 	}
 
+	async saveReadingDirection(comicId: string, direction: ReadingDirection): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(this.metadataStoreName, 'readwrite');
+			const store = transaction.objectStore(this.metadataStoreName);
+			const getRequest = store.get(comicId);
+			getRequest.onsuccess = () => {
+				const record = getRequest.result as ComicBook | undefined;
+				if (record) {
+					record.readingDirection = direction;
+					const putRequest = store.put(record);
+					putRequest.onsuccess = () => resolve();
+					putRequest.onerror = () => reject(new Error('Failed to save reading direction'));
+				} else {
+					resolve(); // Not found
+				}
+			};
+			getRequest.onerror = () => reject(new Error('Failed to get metadata for reading direction update'));
+		});
+	}
+
+	async loadAllReadingDirections(): Promise<Record<string, ReadingDirection>> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(this.metadataStoreName, 'readonly');
+			const store = transaction.objectStore(this.metadataStoreName);
+			const request = store.getAll();
+			request.onsuccess = () => {
+				const records = request.result as ComicBook[];
+				const directions: Record<string, ReadingDirection> = {};
+				for (const record of records) {
+					const direction = record.readingDirection ?? record.info?.readingDirection;
+					if (direction) {
+						directions[record.id] = direction;
+					}
+				}
+				resolve(directions);
+			};
+			request.onerror = () => reject(new Error('Failed to load reading directions'));
+		});
+	}
+
 	async saveComicMetadata(comic: ComicBook): Promise<void> {
 		const db = await this.ensureDB();
 		return new Promise((resolve, reject) => {
@@ -371,7 +1143,10 @@ class ComicStorageManager {
 			const request = store.put(cleanComic);
 
 			request.onerror = () => reject(request.error);
-			request.onsuccess = () => resolve();
+			request.onsuccess = () => {
+				this.notifyChange('saved', [comic.id]);
+				resolve();
+			};
 		});
 	}
 
@@ -387,9 +1162,21 @@ class ComicStorageManager {
 		});
 	}
 
+	async getAllComicMetadata(): Promise<ComicBook[]> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(this.metadataStoreName, 'readonly');
+			const store = transaction.objectStore(this.metadataStoreName);
+			const request = store.getAll();
+
+			request.onsuccess = () => resolve(request.result as ComicBook[]);
+			request.onerror = () => reject(new Error('Failed to list comic metadata'));
+		});
+	}
+
 	async updateLastAccessed(
 		id: string,
-		data?: { currentPage?: number; totalPages?: number }
+		data?: { currentPage?: number; totalPages?: number; lastRead?: Date }
 	): Promise<void> {
 		const db = await this.ensureDB();
 
@@ -401,7 +1188,8 @@ class ComicStorageManager {
 			getRequest.onsuccess = () => {
 				const record = getRequest.result as ComicBook | undefined;
 				if (record) {
-					record.lastRead = new Date();
+					// Synced progress keeps the time it was read elsewhere
+					record.lastRead = data?.lastRead ?? new Date();
 					if (data && typeof data.currentPage === 'number') {
 						record.currentPage = data.currentPage;
 					}
@@ -409,7 +1197,10 @@ class ComicStorageManager {
 						record.totalPages = data.totalPages;
 					}
 					const putRequest = store.put(record);
-					putRequest.onsuccess = () => resolve();
+					putRequest.onsuccess = () => {
+						this.notifyChange('saved', [id]);
+						resolve();
+					};
 					putRequest.onerror = () => reject(new Error('Failed to update metadata'));
 				} else {
 					resolve(); // If no metadata, nothing to update (it will be created on first open)
@@ -424,16 +1215,42 @@ class ComicStorageManager {
 	}
 
 	async savePageBlob(comicId: string, pageIndex: number, blob: Blob): Promise<void> {
+		// A budget of 0 turns the page cache off
+		if ((await this.getPageCacheBudget()) === 0) return;
 		const db = await this.ensureDB();
 		const key = `${comicId}-${pageIndex}`;
+		const now = Date.now();
 
-		return new Promise((resolve, reject) => {
+		await new Promise<void>((resolve, reject) => {
 			const transaction = db.transaction(this.pagesStoreName, 'readwrite');
 			const store = transaction.objectStore(this.pagesStoreName);
-			const request = store.put({ key, comicId, pageIndex, blob, cachedAt: new Date() });
+			const getRequest = store.get(key);
 
-			request.onerror = () => reject(request.error);
-			request.onsuccess = () => resolve();
+			getRequest.onsuccess = () => {
+				const previous = getRequest.result as PageCacheRecord | undefined;
+				const record: PageCacheRecord = {
+					key,
+					comicId,
+					pageIndex,
+					blob,
+					size: blob.size,
+					cachedAt: new Date(now),
+					lastAccessed: now
+				};
+				store.put(record);
+
+				if (this.pageCacheBytes !== null) {
+					this.pageCacheBytes += blob.size - (previous?.size ?? 0);
+				}
+			};
+
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(transaction.error);
+		});
+
+		// Eviction runs in the background so page extraction isn't held up by it
+		void this.enforcePageCacheBudget({ comicId, pageIndex }).catch((error) => {
+			logger.warn('ComicStorage', 'Failed to enforce page cache budget', error);
 		});
 	}
 
@@ -443,18 +1260,254 @@ class ComicStorageManager {
 
 		return new Promise((resolve, reject) => {
 			const transaction = db.transaction(this.pagesStoreName, 'readonly');
-			const store = transaction.objectStore(this.pagesStoreName);
-			const request = store.get(key);
+			const request = transaction.objectStore(this.pagesStoreName).get(key);
 
 			request.onerror = () => reject(request.error);
 			request.onsuccess = () => {
-				const result = request.result;
+				const result = request.result as PageCacheRecord | undefined;
+				// Touch the record so LRU eviction sees this page as recently read
+				if (result) this.touchPage(key);
 				resolve(result ? result.blob : null);
 			};
 		});
 	}
 
-	async getStorageEstimate(): Promise<{ usage: number; quota: number; percentage: number }> {
+	private touchPage(key: string): void {
+		this.pageAccessTimes.set(key, Date.now());
+		this.pageAccessTimer ??= setTimeout(() => {
+			void this.flushPageAccess().catch((error) => {
+				logger.warn('ComicStorage', 'Failed to record page access times', error);
+			});
+		}, PAGE_ACCESS_FLUSH_DELAY);
+	}
+
+	// Writes the access times collected since the last flush in one transaction
+	private async flushPageAccess(): Promise<void> {
+		if (this.pageAccessTimer) clearTimeout(this.pageAccessTimer);
+		this.pageAccessTimer = null;
+		if (this.pageAccessTimes.size === 0) return;
+
+		const touched = this.pageAccessTimes;
+		this.pageAccessTimes = new Map();
+		const db = await this.ensureDB();
+
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(this.pagesStoreName, 'readwrite');
+			const store = transaction.objectStore(this.pagesStoreName);
+			for (const [key, lastAccessed] of touched) {
+				const request = store.get(key);
+				request.onsuccess = () => {
+					const record = request.result as PageCacheRecord | undefined;
+					// Evicted meanwhile, or saved again with a newer time
+					if (record && record.lastAccessed < lastAccessed) store.put({ ...record, lastAccessed });
+				};
+			}
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(new Error('Failed to update page access times'));
+		});
+	}
+
+	// Small reader thumbnails, kept separately from the page cache so eviction doesn't touch them
+	async savePageThumbnail(comicId: string, pageIndex: number, blob: Blob): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.thumbnailsStoreName, 'readwrite');
+			tx.objectStore(this.thumbnailsStoreName).put({
+				key: `${comicId}-${pageIndex}`,
+				comicId,
+				pageIndex,
+				blob
+			});
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(new Error('Failed to save page thumbnail'));
+		});
+	}
+
+	async getPageThumbnail(comicId: string, pageIndex: number): Promise<Blob | null> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.thumbnailsStoreName, 'readonly');
+			const request = tx.objectStore(this.thumbnailsStoreName).get(`${comicId}-${pageIndex}`);
+			request.onsuccess = () => resolve(request.result?.blob ?? null);
+			request.onerror = () => reject(new Error('Failed to get page thumbnail'));
+		});
+	}
+
+	async getPageCacheBudget(): Promise<number> {
+		const budget = await this.getSetting<number>(PAGE_CACHE_BUDGET_KEY);
+		return typeof budget === 'number' && budget >= 0 ? budget : DEFAULT_PAGE_CACHE_BUDGET;
+	}
+
+	async setPageCacheBudget(bytes: number): Promise<void> {
+		await this.saveSetting(PAGE_CACHE_BUDGET_KEY, Math.max(0, Math.floor(bytes)));
+		await this.enforcePageCacheBudget();
+	}
+
+	async getPageCacheUsage(): Promise<PageCacheUsage> {
+		const comics = await this.collectPageCacheStats();
+		let bytes = 0;
+		let pages = 0;
+		for (const comic of comics.values()) {
+			bytes += comic.bytes;
+			pages += comic.pages;
+		}
+		this.pageCacheBytes = bytes;
+		return { bytes, pages, comics: comics.size, budget: await this.getPageCacheBudget() };
+	}
+
+	// Drops every cached page and reports how many bytes were freed
+	async clearPageCache(): Promise<number> {
+		const db = await this.ensureDB();
+		const { bytes } = await this.getPageCacheUsage();
+
+		await new Promise<void>((resolve, reject) => {
+			const transaction = db.transaction(this.pagesStoreName, 'readwrite');
+			transaction.objectStore(this.pagesStoreName).clear();
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(new Error('Failed to clear page cache'));
+		});
+
+		this.pageCacheBytes = 0;
+		logger.info('ComicStorage', `Page cache cleared, freed ${bytes} bytes`);
+		return bytes;
+	}
+
+	// Per-comic totals and most recent access time, read through the comicId index
+	private async collectPageCacheStats(): Promise<Map<string, { bytes: number; pages: number; lastAccessed: number }>> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(this.pagesStoreName, 'readonly');
+			const index = transaction.objectStore(this.pagesStoreName).index('comicId');
+			const request = index.openCursor();
+			const comics = new Map<string, { bytes: number; pages: number; lastAccessed: number }>();
+
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if (!cursor) {
+					resolve(comics);
+					return;
+				}
+				const record = cursor.value as PageCacheRecord;
+				const entry = comics.get(record.comicId) ?? { bytes: 0, pages: 0, lastAccessed: 0 };
+				entry.bytes += record.size ?? record.blob?.size ?? 0;
+				entry.pages++;
+				entry.lastAccessed = Math.max(entry.lastAccessed, record.lastAccessed ?? 0);
+				comics.set(record.comicId, entry);
+				cursor.continue();
+			};
+			request.onerror = () => reject(new Error('Failed to scan page cache'));
+		});
+	}
+
+	// `active` is the page just cached: its comic is evicted last, page by page
+	private async enforcePageCacheBudget(active?: { comicId: string; pageIndex: number }): Promise<void> {
+		// One eviction pass at a time, concurrent saves just wait for it
+		if (this.pageCacheEviction) return this.pageCacheEviction;
+
+		this.pageCacheEviction = (async () => {
+			const budget = await this.getPageCacheBudget();
+			if (this.pageCacheBytes !== null && this.pageCacheBytes <= budget) return;
+
+			await this.flushPageAccess();
+			const comics = await this.collectPageCacheStats();
+			let total = 0;
+			for (const comic of comics.values()) total += comic.bytes;
+			this.pageCacheBytes = total;
+			if (total <= budget) return;
+
+			// Least recently read comics go first; the one being read goes last
+			const candidates = Array.from(comics.entries())
+				.filter(([comicId]) => comicId !== active?.comicId)
+				.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+
+			for (const [comicId, stats] of candidates) {
+				if (total <= budget) break;
+				await this.deleteCachedPages(comicId);
+				total -= stats.bytes;
+				logger.info('ComicStorage', `Evicted ${stats.pages} cached pages of ${comicId}`);
+			}
+
+			// A single large comic can fill the budget on its own
+			if (total > budget && active) {
+				total -= await this.evictPagesAwayFrom(active.comicId, active.pageIndex, total - budget);
+			}
+
+			this.pageCacheBytes = total;
+		})().finally(() => {
+			this.pageCacheEviction = null;
+		});
+
+		return this.pageCacheEviction;
+	}
+
+	// Evicts pages of one comic, furthest from `pageIndex` first, least recently read among
+	// equally far ones, until `bytesToFree` are gone. The page itself stays. Returns bytes freed.
+	private async evictPagesAwayFrom(comicId: string, pageIndex: number, bytesToFree: number): Promise<number> {
+		const db = await this.ensureDB();
+		const pages = await new Promise<{ key: IDBValidKey; pageIndex: number; size: number; lastAccessed: number }[]>((resolve, reject) => {
+			const transaction = db.transaction(this.pagesStoreName, 'readonly');
+			const request = transaction.objectStore(this.pagesStoreName).index('comicId').getAll(IDBKeyRange.only(comicId));
+			request.onsuccess = () => {
+				const records = request.result as PageCacheRecord[];
+				resolve(records.map((record) => ({
+					key: record.key,
+					pageIndex: record.pageIndex,
+					size: record.size ?? record.blob?.size ?? 0,
+					lastAccessed: record.lastAccessed ?? 0
+				})));
+			};
+			request.onerror = () => reject(new Error(`Failed to read cached pages of ${comicId}`));
+		});
+
+		const victims: IDBValidKey[] = [];
+		let freed = 0;
+		const byDistance = pages
+			.filter((page) => page.pageIndex !== pageIndex)
+			.sort((a, b) => Math.abs(b.pageIndex - pageIndex) - Math.abs(a.pageIndex - pageIndex) || a.lastAccessed - b.lastAccessed);
+		for (const page of byDistance) {
+			if (freed >= bytesToFree) break;
+			victims.push(page.key);
+			freed += page.size;
+		}
+		if (victims.length === 0) return 0;
+
+		await new Promise<void>((resolve, reject) => {
+			const transaction = db.transaction(this.pagesStoreName, 'readwrite');
+			const store = transaction.objectStore(this.pagesStoreName);
+			for (const key of victims) store.delete(key);
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(new Error(`Failed to evict cached pages of ${comicId}`));
+		});
+		logger.info('ComicStorage', `Evicted ${victims.length} cached pages of ${comicId} away from page ${pageIndex}`);
+		return freed;
+	}
+
+	private async deleteCachedPages(comicId: string): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(this.pagesStoreName, 'readwrite');
+			const store = transaction.objectStore(this.pagesStoreName);
+			const request = store.index('comicId').openKeyCursor(IDBKeyRange.only(comicId));
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if (cursor) {
+					store.delete(cursor.primaryKey);
+					cursor.continue();
+				}
+			};
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(new Error(`Failed to evict cached pages of ${comicId}`));
+		});
+	}
+
+	async getStorageEstimate(): Promise<StorageEstimate> {
+		let pageCache = 0;
+		try {
+			pageCache = (await this.getPageCacheUsage()).bytes;
+		} catch (error) {
+			logger.warn('ComicStorage', 'Failed to measure page cache', error);
+		}
+
 		if ('storage' in navigator && 'estimate' in navigator.storage) {
 			const estimate = await navigator.storage.estimate();
 			const usage = estimate.usage || 0;
@@ -464,10 +1517,11 @@ class ComicStorageManager {
 			return {
 				usage,
 				quota,
-				percentage: Math.round(percentage * 100) / 100
+				percentage: Math.round(percentage * 100) / 100,
+				pageCache
 			};
 		}
-		return { usage: 0, quota: 0, percentage: 0 };
+		return { usage: 0, quota: 0, percentage: 0, pageCache };
 	}
 
 	// --- Settings Operations ---
@@ -484,6 +1538,17 @@ class ComicStorageManager {
 		});
 	}
 
+	async deleteSetting(key: string): Promise<void> {
+		const db = await this.ensureDB();
+		return new Promise((resolve, reject) => {
+			const tx = db.transaction(this.settingsStoreName, 'readwrite');
+			const request = tx.objectStore(this.settingsStoreName).delete(key);
+
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(new Error(`Failed to delete setting: ${key}`));
+		});
+	}
+
 	async getSetting<T>(key: string): Promise<T | null> {
 		const db = await this.ensureDB();
 		return new Promise((resolve, reject) => {
@@ -491,7 +1556,8 @@ class ComicStorageManager {
 			const store = tx.objectStore(this.settingsStoreName);
 			const request = store.get(key);
 
-			request.onsuccess = () => resolve((request.result as T) || null);
+			// Stored false and 0 are values too
+			request.onsuccess = () => resolve((request.result as T) ?? null);
 			request.onerror = () => reject(new Error(`Failed to get setting: ${key}`));
 		});
 	}
@@ -0,0 +1,57 @@
+import { get, writable, type Writable } from 'svelte/store';
+import { comicStorage } from '$lib/storage/comicStorage';
+import type { Bookmark } from '../../types/comic.js';
+
+// Bookmarks of the comic currently open in the reader, sorted by page
+const createBookmarkStore = () => {
+	const store: Writable<Bookmark[]> = writable([]);
+	const { subscribe, set, update } = store;
+	let comicId: string | null = null;
+
+	return {
+		subscribe,
+		async load(id: string) {
+			comicId = id;
+			const bookmarks = await comicStorage.getBookmarks(id);
+			// Ignore results for a comic that was closed while loading
+			if (comicId === id) set(bookmarks);
+		},
+		clear() {
+			comicId = null;
+			set([]);
+		},
+		async toggle(pageIndex: number) {
+			if (!comicId) return;
+
+			const bookmark = get(store).find((b) => b.pageIndex === pageIndex);
+			if (bookmark) {
+				await comicStorage.deleteBookmark(bookmark.id);
+				update((state) => state.filter((b) => b.id !== bookmark.id));
+				return;
+			}
+
+			const now = Date.now();
+			const created: Bookmark = {
+				id: crypto.randomUUID(),
+				comicId,
+				pageIndex,
+				name: `Page ${pageIndex + 1}`,
+				createdAt: now,
+				updatedAt: now
+			};
+			await comicStorage.saveBookmark(created);
+			update((state) => [...state, created].sort((a, b) => a.pageIndex - b.pageIndex));
+		},
+		async edit(bookmark: Bookmark, changes: Partial<Pick<Bookmark, 'name' | 'note'>>) {
+			const updated: Bookmark = { ...bookmark, ...changes, updatedAt: Date.now() };
+			await comicStorage.saveBookmark(updated);
+			update((state) => state.map((b) => (b.id === updated.id ? updated : b)));
+		},
+		async remove(id: string) {
+			await comicStorage.deleteBookmark(id);
+			update((state) => state.filter((b) => b.id !== id));
+		}
+	};
+};
+
+export const bookmarkStore = createBookmarkStore();
@@ -0,0 +1,21 @@
+import { readable } from 'svelte/store';
+import { importQueue } from '$lib/services/importQueue';
+import type { ImportJob } from '../../types/comic.js';
+
+export interface ImportQueueState {
+	jobs: ImportJob[];
+	paused: boolean;
+	concurrency: number;
+}
+
+const snapshot = (): ImportQueueState => ({
+	jobs: importQueue.getJobs(),
+	paused: importQueue.isPaused,
+	concurrency: importQueue.maxParallel
+});
+
+// Live view of the background import queue
+export const importQueueStore = readable<ImportQueueState>(snapshot(), (set) => {
+	set(snapshot());
+	return importQueue.onChange(() => set(snapshot()));
+});
@@ -0,0 +1,33 @@
+import { writable, type Writable } from 'svelte/store';
+import { comicStorage } from '$lib/storage/comicStorage';
+import type { ComicBook, ReadingDirection } from '../../types/comic.js';
+
+const createReadingDirectionStore = () => {
+	const { subscribe, set, update }: Writable<Record<string, ReadingDirection>> = writable({});
+
+	return {
+		subscribe,
+		set,
+		update,
+		async init() {
+			const directions = await comicStorage.loadAllReadingDirections();
+			set(directions);
+		},
+		async setDirection(comicId: string, direction: ReadingDirection) {
+			await comicStorage.saveReadingDirection(comicId, direction);
+			update((state) => {
+				return { ...state, [comicId]: direction };
+			});
+		}
+	};
+};
+
+export const readingDirectionStore = createReadingDirectionStore();
+
+// Stored choice first, then the ComicInfo Manga flag, then left-to-right
+export function resolveReadingDirection(
+	comic: ComicBook,
+	directions: Record<string, ReadingDirection>
+): ReadingDirection {
+	return directions[comic.id] ?? comic.readingDirection ?? comic.info?.readingDirection ?? 'ltr';
+}
@@ -18,7 +18,10 @@ export const loadingMessage = writable<string>('');
 export const viewSettings = writable({
 	fitMode: 'fit-width' as 'fit-width' | 'fit-height' | 'original',
 	singlePageMode: true,
-	showThumbnails: false
+	showThumbnails: false,
+	// 'vertical' renders every page in one continuous strip (webtoons, long-strip scans)
+	readingMode: 'paged' as 'paged' | 'vertical',
+	pageGap: 8 // Pixels between pages in vertical mode
 });
 
 // Error state
@@ -0,0 +1,75 @@
+import { writable } from 'svelte/store';
+import { logger } from '$lib/services/logger';
+import { setError } from './session';
+
+// How long an action can be undone
+export const UNDO_WINDOW = 10_000;
+
+export interface UndoEntry {
+	id: number;
+	message: string;
+}
+
+interface PendingAction {
+	entry: UndoEntry;
+	undo: () => Promise<void>;
+	commit?: () => Promise<void>; // Deferred part of the action, runs when the window closes
+	timer: ReturnType<typeof setTimeout>;
+}
+
+// The latest undoable action. Pushing a new one closes the window of the previous one.
+const createUndoStore = () => {
+	const { subscribe, set } = writable<UndoEntry | null>(null);
+	const undoListeners = new Set<() => void>();
+	let pending: PendingAction | null = null;
+	let nextId = 0;
+
+	const take = (): PendingAction | null => {
+		const action = pending;
+		if (action) clearTimeout(action.timer);
+		pending = null;
+		set(null);
+		return action;
+	};
+
+	// Closes the window, running the deferred part of the action
+	const finish = async () => {
+		const action = take();
+		if (!action?.commit) return;
+		try {
+			await action.commit();
+		} catch (error) {
+			logger.error('Undo', `Failed to finish "${action.entry.message}"`, error);
+			setError(`Failed to finish: ${action.entry.message}`, 'error');
+		}
+	};
+
+	return {
+		subscribe,
+		push(message: string, undo: () => Promise<void>, commit?: () => Promise<void>) {
+			void finish();
+			const entry: UndoEntry = { id: ++nextId, message };
+			pending = { entry, undo, commit, timer: setTimeout(() => void finish(), UNDO_WINDOW) };
+			set(entry);
+		},
+		async undo() {
+			const action = take();
+			if (!action) return;
+			try {
+				await action.undo();
+				for (const listener of undoListeners) listener();
+			} catch (error) {
+				logger.error('Undo', `Failed to undo "${action.entry.message}"`, error);
+				setError(`Failed to undo: ${action.entry.message}`, 'error');
+			}
+		},
+		commit: finish,
+		// Undone actions change data behind the page's back, pages reload on this
+		onUndo(listener: () => void): () => void {
+			undoListeners.add(listener);
+			return () => undoListeners.delete(listener);
+		}
+	};
+};
+
+export const undoStore = createUndoStore();
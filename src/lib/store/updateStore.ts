@@ -0,0 +1,40 @@
+import { writable } from 'svelte/store';
+import { logger } from '$lib/services/logger';
+
+// Tracks a new service worker version waiting to take over. It only activates once the
+// user accepts, then the page reloads onto the new version.
+const createUpdateStore = () => {
+	const { subscribe, set } = writable<ServiceWorker | null>(null);
+	let accepted = false;
+
+	const watchInstalling = (registration: ServiceWorkerRegistration) => {
+		const worker = registration.installing;
+		worker?.addEventListener('statechange', () => {
+			// Installed while another version is in control means an update, not a first install
+			if (worker.state === 'installed' && navigator.serviceWorker.controller) set(worker);
+		});
+	};
+
+	return {
+		subscribe,
+		watch(registration: ServiceWorkerRegistration) {
+			if (registration.waiting && navigator.serviceWorker.controller) set(registration.waiting);
+			registration.addEventListener('updatefound', () => watchInstalling(registration));
+
+			navigator.serviceWorker.addEventListener('controllerchange', () => {
+				// Another tab accepting the update must not reload this one mid-read
+				if (accepted) window.location.reload();
+			});
+		},
+		apply(worker: ServiceWorker) {
+			accepted = true;
+			logger.info('PWA', 'Activating new version');
+			worker.postMessage({ type: 'SKIP_WAITING' });
+		},
+		dismiss() {
+			set(null);
+		}
+	};
+};
+
+export const updateStore = createUpdateStore();
@@ -0,0 +1,75 @@
+// Svelte action: fills an <img> with a page thumbnail once it scrolls into view
+
+import type { PageThumbnailer } from '$lib/services/pageThumbnailer';
+
+export interface LazyThumbnailParams {
+	index: number;
+	thumbnailer: PageThumbnailer;
+	root?: Element | null;
+}
+
+export function lazyThumbnail(node: HTMLImageElement, params: LazyThumbnailParams) {
+	let current = params;
+	let isLoaded = false;
+	let isRequested = false;
+
+	const load = () => {
+		const { index, thumbnailer } = current;
+		const cached = thumbnailer.getUrl(index);
+		if (cached) {
+			node.src = cached;
+			isLoaded = true;
+			return;
+		}
+
+		isRequested = true;
+		thumbnailer
+			.getThumbnail(index)
+			.then((url) => {
+				// The element may have been reused for another page meanwhile
+				if (current.index === index) {
+					node.src = url;
+					isLoaded = true;
+				}
+			})
+			.catch(() => {
+				// Cancelled or failed, the placeholder stays
+			})
+			.finally(() => {
+				if (current.index === index) isRequested = false;
+			});
+	};
+
+	const observer = new IntersectionObserver(
+		(entries) => {
+			const isVisible = entries.some((entry) => entry.isIntersecting);
+			if (isVisible && !isLoaded && !isRequested) {
+				load();
+			} else if (!isVisible && isRequested && !isLoaded) {
+				current.thumbnailer.cancel(current.index);
+				isRequested = false;
+			}
+		},
+		{ root: params.root ?? null, rootMargin: '200px' }
+	);
+	observer.observe(node);
+
+	return {
+		update(next: LazyThumbnailParams) {
+			if (next.index === current.index && next.thumbnailer === current.thumbnailer) return;
+			if (isRequested && !isLoaded) current.thumbnailer.cancel(current.index);
+
+			current = next;
+			isLoaded = false;
+			isRequested = false;
+			node.removeAttribute('src');
+			// Re-observe so the new page loads if the element is already visible
+			observer.unobserve(node);
+			observer.observe(node);
+		},
+		destroy() {
+			observer.disconnect();
+			if (isRequested && !isLoaded) current.thumbnailer.cancel(current.index);
+		}
+	};
+}
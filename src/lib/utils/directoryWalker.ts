@@ -0,0 +1,163 @@
+// Recursive directory walking
+// Covers both folder APIs: FileSystemEntry from drag and drop, and FileSystemDirectoryHandle
+// from the directory picker. Files come back with their path relative to the walk root
+// ('Series/Vol 1/001.cbz') so the folder hierarchy can be recreated.
+
+import { logger } from '../services/logger.js';
+
+// Deeper than any real comic collection, stops runaway walks through linked folders
+export const MAX_WALK_DEPTH = 32;
+
+export interface WalkOptions {
+	filter?: (name: string) => boolean; // Which files to keep, all by default
+	maxDepth?: number;
+	signal?: AbortSignal;
+}
+
+export interface WalkedFile {
+	path: string;
+	file: File;
+}
+
+export interface WalkedHandle {
+	path: string;
+	handle: FileSystemFileHandle;
+}
+
+// Splits 'a/b/c.cbz' into its folders, ['a', 'b']
+export function getParentSegments(path: string): string[] {
+	return path.split('/').slice(0, -1).filter(Boolean);
+}
+
+// 'a/b/c.cbz' -> 'a/b', '' at the top level
+export function getParentPath(path: string): string {
+	return getParentSegments(path).join('/');
+}
+
+export function joinPath(parent: string, name: string): string {
+	return parent ? `${parent}/${name}` : name;
+}
+
+// readEntries returns at most ~100 entries per call, keep reading until it comes back empty
+function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+	const reader = directory.createReader();
+	const entries: FileSystemEntry[] = [];
+
+	return new Promise((resolve, reject) => {
+		const readBatch = () => {
+			reader.readEntries((batch) => {
+				if (batch.length === 0) {
+					resolve(entries);
+					return;
+				}
+				entries.push(...batch);
+				readBatch();
+			}, reject);
+		};
+		readBatch();
+	});
+}
+
+function getEntryFile(entry: FileSystemFileEntry): Promise<File> {
+	return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// Walks dropped entries, dropped folders keep their own name as the first path segment.
+// Entries must be taken from the DataTransfer synchronously in the drop handler.
+export async function walkEntries(entries: FileSystemEntry[], options: WalkOptions = {}): Promise<WalkedFile[]> {
+	const { filter = () => true, maxDepth = MAX_WALK_DEPTH, signal } = options;
+	const files: WalkedFile[] = [];
+
+	const walk = async (entry: FileSystemEntry, parentPath: string, depth: number): Promise<void> => {
+		signal?.throwIfAborted();
+		const path = joinPath(parentPath, entry.name);
+
+		if (entry.isFile) {
+			if (!filter(entry.name)) return;
+			try {
+				files.push({ path, file: await getEntryFile(entry as FileSystemFileEntry) });
+			} catch (error) {
+				logger.warn('DirectoryWalker', `Skipping unreadable file ${path}`, error);
+			}
+			return;
+		}
+
+		if (!entry.isDirectory) return;
+		// Entries don't expose where a symlink points, so a looping link is only stopped here
+		if (depth >= maxDepth) {
+			logger.warn('DirectoryWalker', `Skipping ${path}: deeper than ${maxDepth} folders`);
+			return;
+		}
+
+		let children: FileSystemEntry[];
+		try {
+			children = await readAllEntries(entry as FileSystemDirectoryEntry);
+		} catch (error) {
+			logger.warn('DirectoryWalker', `Skipping unreadable folder ${path}`, error);
+			return;
+		}
+		for (const child of children) await walk(child, path, depth + 1);
+	};
+
+	for (const entry of entries) await walk(entry, '', 0);
+	return files;
+}
+
+// Walks everything below a directory handle, paths are relative to it
+export async function walkDirectoryHandle(
+	root: FileSystemDirectoryHandle,
+	options: WalkOptions = {}
+): Promise<WalkedHandle[]> {
+	const { filter = () => true, maxDepth = MAX_WALK_DEPTH, signal } = options;
+	const files: WalkedHandle[] = [];
+
+	const walk = async (directory: FileSystemDirectoryHandle, path: string, ancestors: FileSystemDirectoryHandle[]): Promise<void> => {
+		for await (const handle of directory.values()) {
+			signal?.throwIfAborted();
+			const childPath = joinPath(path, handle.name);
+
+			if (handle.kind === 'file') {
+				if (filter(handle.name)) files.push({ path: childPath, handle: handle as FileSystemFileHandle });
+				continue;
+			}
+
+			const child = handle as FileSystemDirectoryHandle;
+			const chain = [...ancestors, directory];
+			if (chain.length > maxDepth) {
+				logger.warn('DirectoryWalker', `Skipping ${childPath}: deeper than ${maxDepth} folders`);
+				continue;
+			}
+			// A link back to a folder above would otherwise be walked forever
+			const isLoop = (await Promise.all(chain.map((ancestor) => ancestor.isSameEntry(child)))).some(Boolean);
+			if (isLoop) {
+				logger.warn('DirectoryWalker', `Skipping ${childPath}: links back to a parent folder`);
+				continue;
+			}
+
+			try {
+				await walk(child, childPath, chain);
+			} catch (error) {
+				if (signal?.aborted) throw error;
+				logger.warn('DirectoryWalker', `Skipping unreadable folder ${childPath}`, error);
+			}
+		}
+	};
+
+	await walk(root, '', []);
+	return files;
+}
+
+// Looks up a file below a directory handle by its relative path, throws NotFoundError if gone
+export async function resolveFileHandle(root: FileSystemDirectoryHandle, path: string): Promise<FileSystemFileHandle> {
+	const name = path.split('/').filter(Boolean).pop();
+	if (!name) throw new Error(`Not a file path: ${path}`);
+
+	const directory = await resolveDirectoryHandle(root, getParentPath(path));
+	return directory.getFileHandle(name);
+}
+
+export async function resolveDirectoryHandle(root: FileSystemDirectoryHandle, path: string): Promise<FileSystemDirectoryHandle> {
+	let directory = root;
+	for (const segment of path.split('/').filter(Boolean)) directory = await directory.getDirectoryHandle(segment);
+	return directory;
+}
@@ -0,0 +1,24 @@
+// Sampled content fingerprint for linked files
+// Hashes the size plus three slices of the file (start, middle, end), so identifying a
+// multi-GB archive costs a few hundred KB of reads. Renames and moves keep the fingerprint,
+// almost any edit to an archive changes it. Not a dedup key: use calculateHash for that.
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+
+const SAMPLE_SIZE = 64 * 1024;
+
+export async function calculateFingerprint(file: Blob): Promise<string> {
+	const hasher = sha256.create();
+	hasher.update(new TextEncoder().encode(`${file.size}:`));
+
+	// Small files are hashed whole
+	const middle = Math.max(0, Math.floor(file.size / 2 - SAMPLE_SIZE / 2));
+	const offsets = file.size <= SAMPLE_SIZE * 3 ? [0] : [0, middle, file.size - SAMPLE_SIZE];
+	const length = file.size <= SAMPLE_SIZE * 3 ? file.size : SAMPLE_SIZE;
+
+	for (const offset of offsets) {
+		hasher.update(new Uint8Array(await file.slice(offset, offset + length).arrayBuffer()));
+	}
+	return bytesToHex(hasher.digest());
+}
@@ -0,0 +1,68 @@
+// Fuzzy text matching helpers for library search
+// Matching works on normalized word tokens; typos are tolerated through a bounded edit distance
+
+export function normalizeText(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, ' ')
+		.trim();
+}
+
+export function tokenize(text: string): string[] {
+	const normalized = normalizeText(text);
+	return normalized ? normalized.split(' ') : [];
+}
+
+// Longer words get more room for typos; very short ones must match exactly
+export function allowedTypos(length: number): number {
+	if (length <= 3) return 0;
+	if (length <= 6) return 1;
+	return 2;
+}
+
+// Levenshtein distance, giving up (returning max + 1) as soon as it exceeds `max`
+export function boundedEditDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	if (a === b) return 0;
+
+	let previous = new Array<number>(b.length + 1);
+	let current = new Array<number>(b.length + 1);
+	for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+	for (let i = 1; i <= a.length; i++) {
+		current[0] = i;
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+			if (current[j] < rowMin) rowMin = current[j];
+		}
+		if (rowMin > max) return max + 1;
+		[previous, current] = [current, previous];
+	}
+
+	return previous[b.length];
+}
+
+// How well a query token matches a word, from 0 (no match) to 1 (exact)
+export function scoreToken(query: string, word: string): number {
+	if (query === word) return 1;
+	if (word.startsWith(query)) return 0.9;
+	if (query.length >= 3 && word.includes(query)) return 0.7;
+
+	const max = allowedTypos(query.length);
+	if (max === 0) return 0;
+
+	const distance = boundedEditDistance(query, word, max);
+	if (distance <= max) return 0.6 - distance * 0.15;
+
+	// The user may still be typing: compare against the start of the word
+	if (word.length > query.length) {
+		const prefixDistance = boundedEditDistance(query, word.slice(0, query.length), max);
+		if (prefixDistance <= max) return 0.5 - prefixDistance * 0.15;
+	}
+
+	return 0;
+}
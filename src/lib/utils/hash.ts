@@ -1,7 +1,156 @@
-export async function calculateHash(file: File | Blob): Promise<string> {
-	const buffer = await file.arrayBuffer();
-	const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-	const hashArray = Array.from(new Uint8Array(hashBuffer));
-	const hashHex = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-	return hashHex;
+// Content hashing for deduplication
+// SHA-256 as lowercase hex, computed by streaming the file in a worker (hash.worker.ts).
+// The digest is identical to hashing the whole buffer at once, so existing contentHash
+// values keep matching.
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import type { HashRequest, HashResponse } from '../workers/hash.worker.js';
+
+export interface HashOptions {
+	onProgress?: (bytes: number, total: number) => void;
+	signal?: AbortSignal;
+}
+
+export class HashCancelledError extends Error {
+	constructor() {
+		super('Hashing cancelled');
+		this.name = 'HashCancelledError';
+	}
+}
+
+// The worker itself failed, as opposed to hashing one file
+class HashWorkerError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'HashWorkerError';
+	}
+}
+
+interface PendingHash {
+	resolve: (hash: string) => void;
+	reject: (error: Error) => void;
+	onProgress?: HashOptions['onProgress'];
+}
+
+let worker: Worker | null = null;
+let workerStarted = false; // Has answered at least once
+let useWorker = typeof Worker !== 'undefined';
+let nextRequestId = 0;
+const pending = new Map<number, PendingHash>();
+
+// A file is usually hashed twice in a row (duplicate check, then save), remember the result
+const hashCache = new WeakMap<Blob, string>();
+
+function getWorker(): Worker {
+	if (!worker) {
+		try {
+			worker = new Worker(new URL('../workers/hash.worker.ts', import.meta.url), { type: 'module' });
+		} catch (error) {
+			useWorker = false;
+			throw new HashWorkerError(error instanceof Error ? error.message : String(error));
+		}
+		worker.onmessage = (event: MessageEvent<HashResponse>) => {
+			workerStarted = true;
+			const response = event.data;
+			const request = pending.get(response.id);
+			if (!request) return;
+
+			if (response.type === 'progress') {
+				request.onProgress?.(response.bytes, response.total);
+				return;
+			}
+
+			pending.delete(response.id);
+			if (response.type === 'done') {
+				request.resolve(response.hash);
+			} else {
+				request.reject(response.cancelled ? new HashCancelledError() : new Error(response.error));
+			}
+		};
+		worker.onerror = (event) => {
+			// A worker that never answered can't load here (e.g. no module worker support),
+			// one that crashed later is started again for the next file
+			if (!workerStarted) useWorker = false;
+			const error = new HashWorkerError(event.message || 'Hash worker crashed');
+			for (const request of pending.values()) request.reject(error);
+			pending.clear();
+			worker?.terminate();
+			worker = null;
+		};
+	}
+	return worker;
+}
+
+function hashInWorker(file: Blob, { onProgress, signal }: HashOptions): Promise<string> {
+	const hashWorker = getWorker();
+	const id = ++nextRequestId;
+
+	return new Promise<string>((resolve, reject) => {
+		const onAbort = () => {
+			if (!pending.delete(id)) return;
+			hashWorker.postMessage({ type: 'cancel', id } satisfies HashRequest);
+			reject(new HashCancelledError());
+		};
+
+		pending.set(id, {
+			resolve: (hash) => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve(hash);
+			},
+			reject: (error) => {
+				signal?.removeEventListener('abort', onAbort);
+				reject(error);
+			},
+			onProgress
+		});
+		signal?.addEventListener('abort', onAbort, { once: true });
+		hashWorker.postMessage({ type: 'hash', id, file } satisfies HashRequest);
+	});
+}
+
+// Same streaming digest on the calling thread, for environments without module workers
+async function hashOnThread(file: Blob, { onProgress, signal }: HashOptions): Promise<string> {
+	const hasher = sha256.create();
+	const reader = file.stream().getReader();
+	let bytes = 0;
+
+	try {
+		for (;;) {
+			if (signal?.aborted) {
+				await reader.cancel();
+				throw new HashCancelledError();
+			}
+			const { done, value } = await reader.read();
+			if (done) break;
+			hasher.update(value);
+			bytes += value.byteLength;
+			onProgress?.(bytes, file.size);
+		}
+	} finally {
+		reader.releaseLock();
+	}
+
+	return bytesToHex(hasher.digest());
+}
+
+export async function calculateHash(file: File | Blob, options: HashOptions = {}): Promise<string> {
+	const cached = hashCache.get(file);
+	if (cached) return cached;
+	if (options.signal?.aborted) throw new HashCancelledError();
+
+	let hash: string | undefined;
+	if (useWorker) {
+		try {
+			hash = await hashInWorker(file, options);
+		} catch (error) {
+			// Errors reading this file are the caller's, only a failed worker falls back to hashing here
+			if (!(error instanceof HashWorkerError)) throw error;
+		}
+	}
+	hash ??= await hashOnThread(file, options);
+
+	options.onProgress?.(file.size, file.size);
+	hashCache.set(file, hash);
+	return hash;
 }
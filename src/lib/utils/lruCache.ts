@@ -0,0 +1,108 @@
+// Size-bounded LRU cache
+// Entries are weighed with `sizeOf`; pinned entries are never evicted. Pins are counted,
+// so an entry stays pinned until every pin has been released.
+
+export class LruCache<K, V> {
+	private entries = new Map<K, { value: V; size: number }>();
+	private pins = new Map<K, number>();
+	private totalSize = 0;
+	private evictionCount = 0;
+
+	constructor(
+		private maxSize: number,
+		private sizeOf: (value: V) => number,
+		private onEvict?: (key: K, value: V) => void
+	) {}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	get bytes(): number {
+		return this.totalSize;
+	}
+
+	get evictions(): number {
+		return this.evictionCount;
+	}
+
+	has(key: K): boolean {
+		return this.entries.has(key);
+	}
+
+	get(key: K): V | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		// Re-insert to mark as most recently used
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	set(key: K, value: V): void {
+		const existing = this.entries.get(key);
+		if (existing) {
+			this.entries.delete(key);
+			this.totalSize -= existing.size;
+			if (existing.value !== value) {
+				this.onEvict?.(key, existing.value);
+			}
+		}
+
+		const size = this.sizeOf(value);
+		this.entries.set(key, { value, size });
+		this.totalSize += size;
+		this.evict(key);
+	}
+
+	delete(key: K): void {
+		const entry = this.entries.get(key);
+		if (!entry) return;
+		this.entries.delete(key);
+		this.pins.delete(key);
+		this.totalSize -= entry.size;
+		this.onEvict?.(key, entry.value);
+	}
+
+	// Keys may be pinned before they are set, to protect an entry that is still loading
+	pin(key: K): void {
+		this.pins.set(key, (this.pins.get(key) ?? 0) + 1);
+	}
+
+	unpin(key: K): void {
+		const count = this.pins.get(key);
+		if (!count) return;
+		if (count > 1) {
+			this.pins.set(key, count - 1);
+			return;
+		}
+		this.pins.delete(key);
+		this.evict();
+	}
+
+	clear(): void {
+		for (const [key, entry] of this.entries) {
+			this.onEvict?.(key, entry.value);
+		}
+		this.entries.clear();
+		this.pins.clear();
+		this.totalSize = 0;
+	}
+
+	// Drops least recently used entries until we fit the budget again.
+	// `keep` is the entry just inserted: it survives even if it alone exceeds the budget.
+	private evict(keep?: K): void {
+		if (this.totalSize <= this.maxSize) return;
+
+		for (const [key, entry] of this.entries) {
+			if (this.totalSize <= this.maxSize) break;
+			if (key === keep || this.pins.has(key)) continue;
+
+			this.entries.delete(key);
+			this.totalSize -= entry.size;
+			this.evictionCount++;
+			this.onEvict?.(key, entry.value);
+		}
+	}
+}
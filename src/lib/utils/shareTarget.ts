@@ -0,0 +1,27 @@
+// Shared between the service worker, which receives files shared to the installed app,
+// and the page, which imports them. The manifest's share_target points at SHARE_TARGET_PATH.
+
+export const SHARE_TARGET_PATH = '/share-target';
+// Form field the manifest sends the files in
+export const SHARE_TARGET_FIELD = 'comics';
+// Holds shared files between the service worker receiving them and the page importing them
+export const SHARE_TARGET_CACHE = 'share-target';
+// Where the service worker sends the app after receiving a share
+export const SHARE_TARGET_REDIRECT = '/library?shared';
+
+const FILENAME_HEADER = 'x-filename';
+
+export function toSharedResponse(file: File): Response {
+	return new Response(file, {
+		headers: {
+			'content-type': file.type || 'application/octet-stream',
+			[FILENAME_HEADER]: encodeURIComponent(file.name)
+		}
+	});
+}
+
+export async function fromSharedResponse(response: Response): Promise<File> {
+	const name = decodeURIComponent(response.headers.get(FILENAME_HEADER) ?? 'shared');
+	const blob = await response.blob();
+	return new File([blob], name, { type: blob.type });
+}
@@ -0,0 +1,31 @@
+// Two-page spread layout helpers
+// Pages are paired from the current index; the cover and wide pages always stand alone
+
+export interface PageSize {
+	width: number;
+	height: number;
+}
+
+export function isWidePage(size: PageSize | undefined): boolean {
+	return !!size && size.width > size.height;
+}
+
+export function canPairWithNext(
+	index: number,
+	totalPages: number,
+	isWide: (index: number) => boolean
+): boolean {
+	if (index <= 0 || index + 1 >= totalPages) return false;
+	return !isWide(index) && !isWide(index + 1);
+}
+
+// Index of the spread that ends right before `index`
+export function getPreviousSpreadStart(index: number, isWide: (index: number) => boolean): number {
+	const previous = index - 1;
+	if (previous <= 0) return 0;
+	if (isWide(previous)) return previous;
+
+	const start = previous - 1;
+	if (start <= 0 || isWide(start)) return previous;
+	return start;
+}
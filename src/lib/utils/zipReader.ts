@@ -0,0 +1,162 @@
+// Random-access ZIP reader
+// Reads the central directory from the end of a Blob and extracts single entries on demand,
+// so large archives never have to be loaded into memory at once. ZIP64 archives, which
+// backups over 4 GB are, are read too.
+// fflate's streaming Unzip can't be used here: it finds the end of stored entries written
+// with data descriptors by scanning for a signature, which binary content can contain.
+
+import { inflateSync } from 'fflate';
+
+export interface ZipEntry {
+	name: string;
+	method: number; // 0 = stored, 8 = deflate
+	compressedSize: number;
+	size: number;
+	headerOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_LOCATOR_SIZE = 20;
+const ZIP64_EXTRA_ID = 0x0001;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+// Exact for every offset a Blob can have
+function getUint64(view: DataView, pos: number): number {
+	return view.getUint32(pos, true) + view.getUint32(pos + 4, true) * 2 ** 32;
+}
+
+// Masked (0xffffffff) sizes and offset of a central entry, in the order the ZIP64 extra holds them
+function readZip64Extra(directory: DataView, extraStart: number, extraLength: number, entry: ZipEntry): void {
+	let pos = extraStart;
+	const end = extraStart + extraLength;
+	while (pos + 4 <= end) {
+		const id = directory.getUint16(pos, true);
+		const size = directory.getUint16(pos + 2, true);
+		if (id === ZIP64_EXTRA_ID) {
+			let field = pos + 4;
+			if (entry.size === MAX_32) {
+				entry.size = getUint64(directory, field);
+				field += 8;
+			}
+			if (entry.compressedSize === MAX_32) {
+				entry.compressedSize = getUint64(directory, field);
+				field += 8;
+			}
+			if (entry.headerOffset === MAX_32) entry.headerOffset = getUint64(directory, field);
+			return;
+		}
+		pos += 4 + size;
+	}
+	throw new Error(`Corrupt ZIP64 entry: ${entry.name}`);
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+	const buffer = await blob.slice(start, end).arrayBuffer();
+	return new DataView(buffer);
+}
+
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+	// The end-of-central-directory record sits at the end, after an optional comment
+	const tailStart = Math.max(0, blob.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+	const tail = await readBytes(blob, tailStart, blob.size);
+
+	let eocd = -1;
+	for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+		if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+			eocd = i;
+			break;
+		}
+	}
+	if (eocd < 0) throw new Error('Not a ZIP archive');
+
+	let entryCount = tail.getUint16(eocd + 10, true);
+	let directorySize = tail.getUint32(eocd + 12, true);
+	let directoryOffset = tail.getUint32(eocd + 16, true);
+
+	// Values too large for the classic record live in the ZIP64 one, found through its locator
+	if (entryCount === MAX_16 || directorySize === MAX_32 || directoryOffset === MAX_32) {
+		const eocdOffset = tailStart + eocd;
+		if (eocdOffset < ZIP64_LOCATOR_SIZE) throw new Error('Corrupt ZIP64 archive');
+		const locator = await readBytes(blob, eocdOffset - ZIP64_LOCATOR_SIZE, eocdOffset);
+		if (locator.getUint32(0, true) !== ZIP64_LOCATOR_SIGNATURE) throw new Error('Corrupt ZIP64 archive');
+		const recordOffset = getUint64(locator, 8);
+		const record = await readBytes(blob, recordOffset, recordOffset + 56);
+		if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new Error('Corrupt ZIP64 archive');
+
+		entryCount = getUint64(record, 32);
+		directorySize = getUint64(record, 40);
+		directoryOffset = getUint64(record, 48);
+	}
+
+	const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+	const decoder = new TextDecoder();
+	const entries: ZipEntry[] = [];
+
+	let pos = 0;
+	for (let i = 0; i < entryCount; i++) {
+		if (directory.getUint32(pos, true) !== CENTRAL_SIGNATURE) {
+			throw new Error('Corrupt ZIP central directory');
+		}
+
+		const nameLength = directory.getUint16(pos + 28, true);
+		const extraLength = directory.getUint16(pos + 30, true);
+		const commentLength = directory.getUint16(pos + 32, true);
+		const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength);
+
+		const entry: ZipEntry = {
+			name: decoder.decode(nameBytes),
+			method: directory.getUint16(pos + 10, true),
+			compressedSize: directory.getUint32(pos + 20, true),
+			size: directory.getUint32(pos + 24, true),
+			headerOffset: directory.getUint32(pos + 42, true)
+		};
+		if (entry.size === MAX_32 || entry.compressedSize === MAX_32 || entry.headerOffset === MAX_32) {
+			readZip64Extra(directory, pos + 46 + nameLength, extraLength, entry);
+		}
+		entries.push(entry);
+
+		pos += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+async function getDataStart(blob: Blob, entry: ZipEntry): Promise<number> {
+	const header = await readBytes(blob, entry.headerOffset, entry.headerOffset + 30);
+	if (header.getUint32(0, true) !== LOCAL_SIGNATURE) {
+		throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+	}
+
+	// Local name/extra lengths can differ from the central directory copy
+	return entry.headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+}
+
+export async function readZipEntry(blob: Blob, entry: ZipEntry): Promise<Uint8Array> {
+	const dataStart = await getDataStart(blob, entry);
+	const data = new Uint8Array(await blob.slice(dataStart, dataStart + entry.compressedSize).arrayBuffer());
+
+	switch (entry.method) {
+		case 0:
+			return data;
+		case 8:
+			return inflateSync(data, { out: new Uint8Array(entry.size) });
+		default:
+			throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+	}
+}
+
+// The entry as a Blob. Stored entries are a slice of the archive and never read into memory,
+// compressed ones are inflated.
+export async function getZipEntryBlob(blob: Blob, entry: ZipEntry): Promise<Blob> {
+	if (entry.method !== 0) return new Blob([(await readZipEntry(blob, entry)) as BlobPart]);
+
+	const dataStart = await getDataStart(blob, entry);
+	return blob.slice(dataStart, dataStart + entry.compressedSize);
+}
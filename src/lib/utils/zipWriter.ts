@@ -0,0 +1,229 @@
+// Streaming ZIP writer with ZIP64
+// Writes entries one after another through an async sink, so a backup never sits in memory
+// whole. fflate's Zip can't be used for backups: it has no ZIP64, so archives or entries
+// past 4 GB come out corrupt. ZIP64 records are only written where a value needs them.
+
+import { deflateSync } from 'fflate';
+
+const LOCAL_SIGNATURE = 0x04034b50;
+const DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+const FLAG_DESCRIPTOR = 0x0008; // CRC and sizes follow the data
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+interface CentralEntry {
+	name: Uint8Array;
+	method: number;
+	flags: number;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	offset: number;
+	time: number;
+	date: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array, crc = 0): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let c = ~crc;
+	for (let i = 0; i < data.length; i++) c = crcTable[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+	return ~c >>> 0;
+}
+
+// DataView has no plain-number 64-bit setter, offsets stay well below 2^53
+function setUint64(view: DataView, pos: number, value: number): void {
+	view.setUint32(pos, value % 2 ** 32, true);
+	view.setUint32(pos + 4, Math.floor(value / 2 ** 32), true);
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+		date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	};
+}
+
+export class ZipWriter {
+	private offset = 0;
+	private entries: CentralEntry[] = [];
+	private encoder = new TextEncoder();
+
+	constructor(private sink: (chunk: Uint8Array) => Promise<void>) {}
+
+	// Small entries that fit in memory, deflated
+	async addFile(name: string, data: Uint8Array): Promise<void> {
+		const compressed = deflateSync(data, { level: 6 });
+		const entry = this.createEntry(name, 8, 0);
+		entry.crc = crc32(data);
+		entry.compressedSize = compressed.length;
+		entry.size = data.length;
+
+		await this.emit(this.localHeader(entry, false));
+		await this.emit(compressed);
+	}
+
+	// Large entries, stored as they are and streamed. CRC and sizes go in a data descriptor.
+	async addStream(name: string, stream: ReadableStream<Uint8Array>): Promise<void> {
+		const entry = this.createEntry(name, 0, FLAG_DESCRIPTOR);
+		// Sizes aren't known up front, a ZIP64 local header keeps any size readable
+		await this.emit(this.localHeader(entry, true));
+
+		const reader = stream.getReader();
+		try {
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				entry.crc = crc32(value, entry.crc);
+				entry.size += value.length;
+				await this.emit(value);
+			}
+		} finally {
+			reader.releaseLock();
+		}
+		entry.compressedSize = entry.size;
+
+		const descriptor = new DataView(new ArrayBuffer(24));
+		descriptor.setUint32(0, DESCRIPTOR_SIGNATURE, true);
+		descriptor.setUint32(4, entry.crc, true);
+		setUint64(descriptor, 8, entry.compressedSize);
+		setUint64(descriptor, 16, entry.size);
+		await this.emit(new Uint8Array(descriptor.buffer));
+	}
+
+	// Writes the central directory, the archive is complete afterwards
+	async end(): Promise<void> {
+		const directoryOffset = this.offset;
+		for (const entry of this.entries) await this.emit(this.centralHeader(entry));
+		const directorySize = this.offset - directoryOffset;
+
+		const count = this.entries.length;
+		const needsZip64 = count >= MAX_16 || directorySize >= MAX_32 || directoryOffset >= MAX_32;
+		if (needsZip64) {
+			const zip64EocdOffset = this.offset;
+			const record = new DataView(new ArrayBuffer(56 + 20));
+			record.setUint32(0, ZIP64_EOCD_SIGNATURE, true);
+			setUint64(record, 4, 44); // Size of the rest of the record
+			record.setUint16(12, VERSION_ZIP64, true);
+			record.setUint16(14, VERSION_ZIP64, true);
+			setUint64(record, 24, count);
+			setUint64(record, 32, count);
+			setUint64(record, 40, directorySize);
+			setUint64(record, 48, directoryOffset);
+
+			record.setUint32(56, ZIP64_LOCATOR_SIGNATURE, true);
+			setUint64(record, 64, zip64EocdOffset);
+			record.setUint32(72, 1, true); // Total number of disks
+			await this.emit(new Uint8Array(record.buffer));
+		}
+
+		const eocd = new DataView(new ArrayBuffer(22));
+		eocd.setUint32(0, EOCD_SIGNATURE, true);
+		eocd.setUint16(8, Math.min(count, MAX_16), true);
+		eocd.setUint16(10, Math.min(count, MAX_16), true);
+		eocd.setUint32(12, Math.min(directorySize, MAX_32), true);
+		eocd.setUint32(16, Math.min(directoryOffset, MAX_32), true);
+		await this.emit(new Uint8Array(eocd.buffer));
+	}
+
+	private createEntry(name: string, method: number, flags: number): CentralEntry {
+		const { time, date } = dosDateTime(new Date());
+		const entry: CentralEntry = {
+			name: this.encoder.encode(name),
+			method,
+			flags: flags | FLAG_UTF8,
+			crc: 0,
+			compressedSize: 0,
+			size: 0,
+			offset: this.offset,
+			time,
+			date
+		};
+		this.entries.push(entry);
+		return entry;
+	}
+
+	private localHeader(entry: CentralEntry, zip64: boolean): Uint8Array {
+		const extraLength = zip64 ? 20 : 0;
+		const header = new DataView(new ArrayBuffer(30 + entry.name.length + extraLength));
+		header.setUint32(0, LOCAL_SIGNATURE, true);
+		header.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+		header.setUint16(6, entry.flags, true);
+		header.setUint16(8, entry.method, true);
+		header.setUint16(10, entry.time, true);
+		header.setUint16(12, entry.date, true);
+		header.setUint32(14, entry.crc, true);
+		header.setUint32(18, zip64 ? MAX_32 : entry.compressedSize, true);
+		header.setUint32(22, zip64 ? MAX_32 : entry.size, true);
+		header.setUint16(26, entry.name.length, true);
+		header.setUint16(28, extraLength, true);
+		new Uint8Array(header.buffer).set(entry.name, 30);
+
+		if (zip64) {
+			// Both sizes, zero here, the data descriptor has the real ones
+			const pos = 30 + entry.name.length;
+			header.setUint16(pos, ZIP64_EXTRA_ID, true);
+			header.setUint16(pos + 2, 16, true);
+		}
+		return new Uint8Array(header.buffer);
+	}
+
+	private centralHeader(entry: CentralEntry): Uint8Array {
+		// The ZIP64 extra holds exactly the fields that don't fit, in this order
+		const large = [entry.size, entry.compressedSize, entry.offset].filter((value) => value >= MAX_32);
+		const extraLength = large.length > 0 ? 4 + large.length * 8 : 0;
+		const version = large.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+		const header = new DataView(new ArrayBuffer(46 + entry.name.length + extraLength));
+		header.setUint32(0, CENTRAL_SIGNATURE, true);
+		header.setUint16(4, version, true);
+		header.setUint16(6, version, true);
+		header.setUint16(8, entry.flags, true);
+		header.setUint16(10, entry.method, true);
+		header.setUint16(12, entry.time, true);
+		header.setUint16(14, entry.date, true);
+		header.setUint32(16, entry.crc, true);
+		header.setUint32(20, Math.min(entry.compressedSize, MAX_32), true);
+		header.setUint32(24, Math.min(entry.size, MAX_32), true);
+		header.setUint16(28, entry.name.length, true);
+		header.setUint16(30, extraLength, true);
+		header.setUint32(42, Math.min(entry.offset, MAX_32), true);
+		new Uint8Array(header.buffer).set(entry.name, 46);
+
+		if (large.length > 0) {
+			let pos = 46 + entry.name.length;
+			header.setUint16(pos, ZIP64_EXTRA_ID, true);
+			header.setUint16(pos + 2, large.length * 8, true);
+			pos += 4;
+			for (const value of large) {
+				setUint64(header, pos, value);
+				pos += 8;
+			}
+		}
+		return new Uint8Array(header.buffer);
+	}
+
+	private async emit(chunk: Uint8Array): Promise<void> {
+		this.offset += chunk.length;
+		await this.sink(chunk);
+	}
+}
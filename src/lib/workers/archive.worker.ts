@@ -0,0 +1,214 @@
+// Archive Worker
+// Lists archives and extracts pages with libarchive.js off the main thread.
+// Holds one open archive at a time, LIST_ARCHIVE replaces it.
+
+import { Archive } from 'libarchive.js';
+import type {
+	ArchiveEntry,
+	ArchiveWorkerRequest,
+	ArchiveWorkerResponse,
+	ExtractPageMessage,
+	ListArchiveMessage
+} from '../../types/comic.js';
+import { isComicInfoFile } from '../archive/comicInfo.js';
+import { compareFilenames, IMAGE_SNIFF_LENGTH, isIgnoredEntry, isImageFile, sniffImageType } from '../archive/imageTypes.js';
+
+type ArchiveReader = Awaited<ReturnType<typeof Archive.open>>;
+
+// libarchive extracts one entry at a time anyway, this only bounds queued memory
+const MAX_CONCURRENT_EXTRACTIONS = 2;
+// Entries without an image extension are sniffed, except obvious scene/tagger clutter
+const NON_IMAGE_EXTENSIONS = new Set(['.txt', '.nfo', '.sfv', '.md5', '.sha1', '.url', '.htm', '.html', '.json', '.md', '.nzb', '.par2', '.pdf', '.xml']);
+// Don't extract anything larger than a plausible page just to look at its signature
+const MAX_SNIFF_SIZE = 64 * 1024 * 1024;
+
+interface FoundEntry {
+	name: string;
+	size: number;
+	archiveFile: any; // libarchive.js CompressedFile
+}
+
+let archive: ArchiveReader | null = null;
+let pageFiles: any[] = [];
+let listingId: string | null = null;
+const queue: ExtractPageMessage[] = [];
+const cancelled = new Set<string>();
+let activeExtractions = 0;
+
+Archive.init({
+	workerUrl: '/libarchive/worker-bundle.js'
+});
+
+function respond(response: ArchiveWorkerResponse, transfer: Transferable[] = []): void {
+	self.postMessage(response, { transfer });
+}
+
+function respondError(id: string, error: unknown): void {
+	respond({
+		id,
+		type: 'ERROR',
+		payload: { message: error instanceof Error ? error.message : String(error) }
+	});
+}
+
+function respondCancelled(id: string): void {
+	respond({ id, type: 'ERROR', payload: { message: 'Request cancelled', cancelled: true } });
+}
+
+function getExtension(path: string): string {
+	const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+	const dot = name.lastIndexOf('.');
+	return dot <= 0 ? '' : name.slice(dot);
+}
+
+async function isImageEntry(archiveFile: any): Promise<boolean> {
+	if ((archiveFile.size ?? 0) > MAX_SNIFF_SIZE) return false;
+	try {
+		const extracted: File = await archiveFile.extract();
+		const head = new Uint8Array(await extracted.slice(0, IMAGE_SNIFF_LENGTH).arrayBuffer());
+		return sniffImageType(head) !== null;
+	} catch {
+		return false;
+	}
+}
+
+async function closeArchive(): Promise<void> {
+	// Queued extractions refer to the old archive's indexes
+	for (const message of queue.splice(0)) respondCancelled(message.id);
+	pageFiles = [];
+	const previous = archive;
+	archive = null;
+	await previous?.close();
+}
+
+async function listArchive({ id, payload }: ListArchiveMessage): Promise<void> {
+	listingId = id;
+	await closeArchive();
+
+	const opened = await Archive.open(payload.file);
+	const filesObj = await opened.getFilesObject();
+
+	const found: FoundEntry[] = [];
+	const unknown: FoundEntry[] = [];
+	let comicInfoFile: any = null;
+
+	const processFileObj = (obj: Record<string, any>, basePath = '') => {
+		for (const [name, item] of Object.entries(obj)) {
+			const fullPath = basePath ? `${basePath}/${name}` : name;
+
+			if (item && typeof item === 'object' && 'extract' in item) {
+				// This is a compressed file
+				const entry = { name: fullPath, size: item.size || 0, archiveFile: item };
+				if (isIgnoredEntry(fullPath)) {
+					continue;
+				} else if (isImageFile(fullPath)) {
+					found.push(entry);
+				} else if (isComicInfoFile(fullPath)) {
+					// Prefer the root-level file if several are present
+					if (!comicInfoFile || !basePath) comicInfoFile = item;
+				} else if (!NON_IMAGE_EXTENSIONS.has(getExtension(fullPath))) {
+					unknown.push(entry);
+				}
+			} else if (typeof item === 'object' && !isIgnoredEntry(`${fullPath}/`)) {
+				// This is a directory, recurse
+				processFileObj(item as Record<string, any>, fullPath);
+			}
+		}
+	};
+	processFileObj(filesObj as Record<string, any>);
+
+	// Pages with a missing or unusual extension are kept when their signature is an image
+	for (const entry of unknown) {
+		if (cancelled.has(id)) break;
+		if (await isImageEntry(entry.archiveFile)) found.push(entry);
+	}
+
+	let comicInfoXml: string | undefined;
+	if (comicInfoFile && !cancelled.has(id)) {
+		try {
+			const extracted: File = await comicInfoFile.extract();
+			comicInfoXml = await extracted.text();
+		} catch {
+			// Metadata is optional, the pages still open
+		}
+	}
+
+	// A newer listing or a cancel superseded this one while it ran, the caller still gets an answer
+	if (cancelled.delete(id) || listingId !== id) {
+		await opened.close();
+		respondCancelled(id);
+		return;
+	}
+
+	// Archives have no page order of their own, so sort by filename
+	found.sort((a, b) => compareFilenames(a.name, b.name));
+
+	archive = opened;
+	pageFiles = found.map((entry) => entry.archiveFile);
+	const entries: ArchiveEntry[] = found.map((entry, index) => ({
+		filename: entry.name,
+		index,
+		size: entry.size,
+		is_file: true
+	}));
+
+	respond({ id, type: 'ARCHIVE_LISTED', payload: { entries, comicInfoXml } });
+}
+
+async function extractPage({ id, payload }: ExtractPageMessage): Promise<void> {
+	const archiveFile = pageFiles[payload.index];
+	if (!archiveFile) {
+		throw new Error(`Page ${payload.index} not found in archive`);
+	}
+
+	const extracted: File = await archiveFile.extract();
+	const data = await extracted.arrayBuffer();
+	if (cancelled.delete(id)) return;
+
+	respond({ id, type: 'PAGE_EXTRACTED', payload: { index: payload.index, data } }, [data]);
+}
+
+function pump(): void {
+	while (activeExtractions < MAX_CONCURRENT_EXTRACTIONS && queue.length > 0) {
+		const message = queue.shift()!;
+		activeExtractions++;
+		extractPage(message)
+			.catch((error) => {
+				if (!cancelled.delete(message.id)) respondError(message.id, error);
+			})
+			.finally(() => {
+				activeExtractions--;
+				pump();
+			});
+	}
+}
+
+function cancel(requestId: string): void {
+	const position = queue.findIndex((message) => message.id === requestId);
+	if (position >= 0) {
+		queue.splice(position, 1);
+		respondCancelled(requestId);
+	} else {
+		// Already running, its result is dropped when it finishes
+		cancelled.add(requestId);
+	}
+}
+
+self.addEventListener('message', (event: MessageEvent<ArchiveWorkerRequest>) => {
+	const message = event.data;
+	switch (message.type) {
+		case 'LIST_ARCHIVE':
+			listArchive(message).catch((error) => {
+				if (cancelled.delete(message.id) || listingId !== message.id) respondCancelled(message.id);
+				else respondError(message.id, error);
+			});
+			break;
+		case 'EXTRACT_PAGE':
+			queue.push(message);
+			pump();
+			break;
+		case 'CANCEL':
+			cancel(message.payload.requestId);
+			break;
+	}
+});
@@ -0,0 +1,71 @@
+// Hash Worker
+// Computes SHA-256 digests of files by streaming them in chunks, so memory stays flat
+// however large the file is. WebCrypto can't hash incrementally, hence @noble/hashes.
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+
+export type HashRequest = { type: 'hash'; id: number; file: Blob } | { type: 'cancel'; id: number };
+
+export type HashResponse =
+	| { type: 'progress'; id: number; bytes: number; total: number }
+	| { type: 'done'; id: number; hash: string }
+	| { type: 'error'; id: number; error: string; cancelled?: boolean };
+
+// Progress is posted at most this often to keep message traffic low
+const PROGRESS_STEP = 8 * 1024 * 1024;
+
+const cancelled = new Set<number>();
+
+async function hashFile(id: number, file: Blob): Promise<string> {
+	const hasher = sha256.create();
+	const reader = file.stream().getReader();
+	let bytes = 0;
+	let reported = 0;
+
+	try {
+		for (;;) {
+			if (cancelled.has(id)) {
+				await reader.cancel();
+				throw new Error('Hashing cancelled');
+			}
+
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			hasher.update(value);
+			bytes += value.byteLength;
+			if (bytes - reported >= PROGRESS_STEP) {
+				reported = bytes;
+				self.postMessage({ type: 'progress', id, bytes, total: file.size } satisfies HashResponse);
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+
+	return bytesToHex(hasher.digest());
+}
+
+self.addEventListener('message', async (event: MessageEvent<HashRequest>) => {
+	const request = event.data;
+	if (request.type === 'cancel') {
+		cancelled.add(request.id);
+		return;
+	}
+
+	const { id, file } = request;
+	let response: HashResponse;
+	try {
+		response = { type: 'done', id, hash: await hashFile(id, file) };
+	} catch (error) {
+		response = {
+			type: 'error',
+			id,
+			error: error instanceof Error ? error.message : String(error),
+			cancelled: cancelled.has(id)
+		};
+	}
+	cancelled.delete(id);
+	self.postMessage(response);
+});
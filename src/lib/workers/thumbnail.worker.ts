@@ -0,0 +1,44 @@
+// Thumbnail Worker
+// Downscales page images off the main thread with OffscreenCanvas
+
+export interface ThumbnailRequest {
+	id: number;
+	blob: Blob;
+	width: number; // Target width in pixels, height follows the aspect ratio
+}
+
+export type ThumbnailResponse =
+	| { id: number; blob: Blob; width: number; height: number }
+	| { id: number; error: string };
+
+async function createThumbnail({ blob, width }: ThumbnailRequest): Promise<{ blob: Blob; width: number; height: number }> {
+	const bitmap = await createImageBitmap(blob);
+	try {
+		const scale = Math.min(1, width / bitmap.width);
+		const targetWidth = Math.max(1, Math.round(bitmap.width * scale));
+		const targetHeight = Math.max(1, Math.round(bitmap.height * scale));
+
+		const canvas = new OffscreenCanvas(targetWidth, targetHeight);
+		const ctx = canvas.getContext('2d');
+		if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+		ctx.imageSmoothingQuality = 'high';
+		ctx.drawImage(bitmap, 0, 0, targetWidth, targetHeight);
+
+		const thumbnail = await canvas.convertToBlob({ type: 'image/webp', quality: 0.75 });
+		return { blob: thumbnail, width: targetWidth, height: targetHeight };
+	} finally {
+		bitmap.close();
+	}
+}
+
+self.addEventListener('message', async (event: MessageEvent<ThumbnailRequest>) => {
+	const { id } = event.data;
+	let response: ThumbnailResponse;
+	try {
+		response = { id, ...(await createThumbnail(event.data)) };
+	} catch (error) {
+		response = { id, error: error instanceof Error ? error.message : String(error) };
+	}
+	self.postMessage(response);
+});
@@ -1,66 +1,197 @@
 /// <reference types="@sveltejs/kit" />
-import { build, files, version } from '$service-worker';
+import { build, files, prerendered, version } from '$service-worker';
+import { version as libarchiveVersion } from 'libarchive.js/package.json';
+import { SHARE_TARGET_CACHE, SHARE_TARGET_FIELD, SHARE_TARGET_PATH, SHARE_TARGET_REDIRECT, toSharedResponse } from '$lib/utils/shareTarget';
 
-// Create a unique cache name for this deployment
-const CACHE_NAME = `cache-${version}`;
+// The app shell belongs to one deployment and is replaced as a whole on update
+const SHELL_PREFIX = 'shell-';
+const SHELL_CACHE = `${SHELL_PREFIX}${version}`;
+// Ids of the clients still running a previous shell, stored inside that shell's cache
+const SHELL_CLIENTS = '/__shell-clients';
+// The archive worker and its wasm are large, they outlive deployments until libarchive.js changes
+const LIBARCHIVE_CACHE = `libarchive-${libarchiveVersion}`;
+// Anything else fetched at runtime, kept to MAX_RUNTIME_ENTRIES
+const RUNTIME_CACHE = 'runtime';
+const MAX_RUNTIME_ENTRIES = 60;
 
-const ASSETS = [
+const OFFLINE_PAGE = '/offline.html';
+const LIBARCHIVE_PREFIX = '/libarchive/';
+
+const LIBARCHIVE_ASSETS = files.filter((file) => file.startsWith(LIBARCHIVE_PREFIX));
+const SHELL_ASSETS = [
 	...build, // the app itself
-	...files  // everything in `static`
+	...prerendered, // the pages
+	...files.filter((file) => !file.startsWith(LIBARCHIVE_PREFIX)) // everything else in `static`
 ];
+const SHELL = new Set(SHELL_ASSETS);
+
+const sw = self as any;
 
-self.addEventListener('install', (event: any) => {
-	// Create a new cache and add all files to it
-	async function addFilesToCache() {
-		const cache = await caches.open(CACHE_NAME);
-		await cache.addAll(ASSETS);
+sw.addEventListener('install', (event: any) => {
+	async function precache() {
+		const shell = await caches.open(SHELL_CACHE);
+		await shell.addAll(SHELL_ASSETS);
+
+		// Only fetch the archive assets that aren't cached yet, updates come in the background
+		const libarchive = await caches.open(LIBARCHIVE_CACHE);
+		const missing: string[] = [];
+		for (const asset of LIBARCHIVE_ASSETS) {
+			if (!(await libarchive.match(asset))) missing.push(asset);
+		}
+		await libarchive.addAll(missing);
 	}
 
-	event.waitUntil(addFilesToCache());
-	(self as any).skipWaiting();
+	// No skipWaiting here: the new version waits until the user accepts the update,
+	// so an open reader never has its code swapped underneath it
+	event.waitUntil(precache());
 });
 
-self.addEventListener('activate', (event: any) => {
-	// Remove previous cached data from disk
-	async function deleteOldCaches() {
+sw.addEventListener('message', (event: any) => {
+	if (event.data?.type === 'SKIP_WAITING') sw.skipWaiting();
+});
+
+sw.addEventListener('activate', (event: any) => {
+	// Other tabs keep running the previous deployment after one accepts the update, its shell
+	// stays until they are gone so their lazily loaded chunks still resolve
+	async function retireOldCaches() {
+		const keep = [SHELL_CACHE, LIBARCHIVE_CACHE, RUNTIME_CACHE, SHARE_TARGET_CACHE];
+		const clientIds = (await sw.clients.matchAll({ type: 'all', includeUncontrolled: true })).map((client: any) => client.id);
+
 		for (const key of await caches.keys()) {
-			if (key !== CACHE_NAME) await caches.delete(key);
+			if (keep.includes(key)) continue;
+			if (!key.startsWith(SHELL_PREFIX)) {
+				await caches.delete(key);
+				continue;
+			}
+			// Clients of shells older than the previous one were recorded at an earlier update
+			const shell = await caches.open(key);
+			if (!(await shell.match(SHELL_CLIENTS))) await shell.put(SHELL_CLIENTS, new Response(JSON.stringify(clientIds)));
 		}
+		await deleteUnusedShells();
 	}
 
-	event.waitUntil(deleteOldCaches());
-	(self as any).clients.claim();
+	event.waitUntil(retireOldCaches().then(() => sw.clients.claim()));
 });
 
-self.addEventListener('fetch', (event: any) => {
+// Removes previous shells whose clients have all closed or reloaded onto this deployment
+async function deleteUnusedShells(): Promise<void> {
+	for (const key of await caches.keys()) {
+		if (!key.startsWith(SHELL_PREFIX) || key === SHELL_CACHE) continue;
+
+		const record = await (await caches.open(key)).match(SHELL_CLIENTS);
+		const clientIds: string[] = record ? await record.json() : [];
+		const clients = await Promise.all(clientIds.map((id) => sw.clients.get(id)));
+		if (!clients.some(Boolean)) await caches.delete(key);
+	}
+}
+
+// Assets of a previous deployment, for the clients still running it
+async function matchPreviousShells(request: Request): Promise<Response | undefined> {
+	for (const key of await caches.keys()) {
+		if (!key.startsWith(SHELL_PREFIX) || key === SHELL_CACHE) continue;
+		const cached = await (await caches.open(key)).match(request);
+		if (cached) return cached;
+	}
+	return undefined;
+}
+
+sw.addEventListener('fetch', (event: any) => {
+	const request: Request = event.request;
+	const url = new URL(request.url);
+	// Cross-origin requests are left to the browser
+	if (url.origin !== location.origin) return;
+
+	if (request.method === 'POST' && url.pathname === SHARE_TARGET_PATH) {
+		event.respondWith(receiveShare(request));
+		return;
+	}
 	// ignore POST requests etc
-	if (event.request.method !== 'GET') return;
+	if (request.method !== 'GET') return;
 
-	async function respond() {
-		const url = new URL(event.request.url);
-		const cache = await caches.open(CACHE_NAME);
+	if (request.mode === 'navigate') {
+		// A navigation is a good moment to notice that old tabs have gone
+		event.waitUntil(deleteUnusedShells().catch(() => {}));
+		event.respondWith(navigate(request, url));
+	} else if (SHELL.has(url.pathname)) {
+		event.respondWith(shellFirst(request));
+	} else if (url.pathname.startsWith(LIBARCHIVE_PREFIX)) {
+		event.respondWith(staleWhileRevalidate(request, event));
+	} else {
+		event.respondWith(previousShellFirst(request));
+	}
+});
 
-		// Try to serve from cache first
-		const response = await cache.match(event.request);
+// The app is static, so shared files wait in a cache until the library page imports them
+async function receiveShare(request: Request): Promise<Response> {
+	const form = await request.formData();
+	const shared = form.getAll(SHARE_TARGET_FIELD).filter((value): value is File => value instanceof File);
 
-		if (response) {
-			return response;
-		}
+	const cache = await caches.open(SHARE_TARGET_CACHE);
+	for (const [i, file] of shared.entries()) {
+		await cache.put(`${SHARE_TARGET_PATH}/${Date.now()}-${i}`, toSharedResponse(file));
+	}
+	return Response.redirect(SHARE_TARGET_REDIRECT, 303);
+}
 
-		// Fallback to network
-		try {
-			const networkResponse = await fetch(event.request);
+// Pages come from this deployment's shell, so they always match its scripts
+async function navigate(request: Request, url: URL): Promise<Response> {
+	const shell = await caches.open(SHELL_CACHE);
+	const page = (await shell.match(url.pathname)) ?? (await shell.match(`${url.pathname.replace(/\/$/, '')}.html`));
+	if (page) return page;
 
-			if (networkResponse.status === 200) {
-				cache.put(event.request, networkResponse.clone());
-			}
+	try {
+		return await fetch(request);
+	} catch {
+		return (await shell.match(OFFLINE_PAGE)) ?? Response.error();
+	}
+}
 
-			return networkResponse;
-		} catch (err) {
-			// If network fails and no cache, we are truly offline and don't have the resource
-			throw err;
+async function shellFirst(request: Request): Promise<Response> {
+	const shell = await caches.open(SHELL_CACHE);
+	return (await shell.match(request)) ?? fetch(request);
+}
+
+async function previousShellFirst(request: Request): Promise<Response> {
+	return (await matchPreviousShells(request)) ?? networkFirst(request);
+}
+
+async function staleWhileRevalidate(request: Request, event: any): Promise<Response> {
+	const cache = await caches.open(LIBARCHIVE_CACHE);
+	const cached = await cache.match(request);
+
+	const update = fetch(request).then(async (response) => {
+		if (response.ok) await cache.put(request, response.clone());
+		return response;
+	});
+
+	if (cached) {
+		event.waitUntil(update.catch(() => {}));
+		return cached;
+	}
+	return update;
+}
+
+async function networkFirst(request: Request): Promise<Response> {
+	const cache = await caches.open(RUNTIME_CACHE);
+	try {
+		const response = await fetch(request);
+		// Opaque and partial responses can't be replayed reliably
+		if (response.status === 200 && response.type === 'basic') {
+			await cache.put(request, response.clone());
+			await trimCache(cache, MAX_RUNTIME_ENTRIES);
 		}
+		return response;
+	} catch (err) {
+		const cached = await cache.match(request);
+		if (cached) return cached;
+		throw err;
 	}
+}
 
-	event.respondWith(respond());
-});
\ No newline at end of file
+// Entries come back in insertion order, drop the oldest beyond the cap
+async function trimCache(cache: Cache, maxEntries: number): Promise<void> {
+	const keys = await cache.keys();
+	for (const key of keys.slice(0, Math.max(0, keys.length - maxEntries))) {
+		await cache.delete(key);
+	}
+}
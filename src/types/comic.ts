@@ -3,8 +3,6 @@ export interface ComicPage {
 	index: number;
 	blob?: Blob;
 	url?: string;
-	// For universal archive support (ZIP/RAR/CBR)
-	entry?: any; // Archive entry from archive library
 }
 
 export interface ComicBook {
@@ -16,6 +14,48 @@ export interface ComicBook {
 	totalPages: number;
 	lastRead: Date;
 	coverThumbnail?: string; // Base64 encoded thumbnail
+	info?: ComicInfo; // Parsed from ComicInfo.xml when the archive carries one
+	readingDirection?: ReadingDirection; // Per-comic override, defaults to info.readingDirection
+}
+
+export type ReadingDirection = 'ltr' | 'rtl';
+
+// Page types as defined by the ComicInfo.xml schema
+export type ComicPageType =
+	| 'FrontCover'
+	| 'InnerCover'
+	| 'Roundup'
+	| 'Story'
+	| 'Advertisement'
+	| 'Editorial'
+	| 'Letters'
+	| 'Preview'
+	| 'BackCover'
+	| 'Other'
+	| 'Deleted';
+
+export interface ComicInfoPage {
+	image: number;
+	type: ComicPageType;
+	doublePage?: boolean;
+}
+
+export interface ComicInfo {
+	title?: string;
+	series?: string;
+	number?: string; // Issue numbers can be "1", "1.5" or "Annual 1"
+	count?: number;
+	volume?: number;
+	writer?: string;
+	artist?: string;
+	publisher?: string;
+	year?: number;
+	month?: number;
+	summary?: string;
+	genre?: string;
+	tags?: string[];
+	pageTypes?: ComicInfoPage[];
+	readingDirection?: ReadingDirection;
 }
 
 export interface ArchiveEntry {
@@ -30,26 +70,100 @@ export interface ArchiveEntry {
 export interface FileSystemItem {
 	id: string;
 	name: string;
-	type: 'file';
-	contentHash: string;
+	type: 'file' | 'folder';
+	parentId?: string | null; // Containing folder, null/undefined for the library root
+	contentHash?: string; // Files only
 	size: number;
 	mimeType: string;
 	thumbnail?: string;
+	fingerprint?: string; // Linked files, sampled content hash that survives renames
+	source?: ItemSource; // Linked items, where they live on disk
 	createdAt: number;
 	updatedAt: number;
 }
 
+// Location of a linked item inside its linked folder. Linked files are read from disk
+// on open, nothing of their content is stored.
+export interface ItemSource {
+	folderId: string; // LinkedFolder id
+	path: string; // Relative to the linked folder, '' for the folder itself
+	lastModified?: number; // Files only, as last scanned
+}
+
+// A folder on disk indexed into the library. Its id is also the id of the library
+// folder item its contents are listed under.
+export interface LinkedFolder {
+	id: string;
+	name: string;
+	handle: FileSystemDirectoryHandle;
+	writable?: boolean; // Write-back: library renames, moves and deletes apply on disk
+	createdAt: number;
+	lastScannedAt?: number;
+}
+
+// Named bookmark with an optional note, one per (comic, page)
+export interface Bookmark {
+	id: string;
+	comicId: string;
+	pageIndex: number;
+	name: string;
+	note?: string;
+	createdAt: number;
+	updatedAt: number;
+}
+
+// One stretch of reading in the reader, appended when it ends and never changed afterwards
+export interface ReadingSession {
+	id: string;
+	comicId: string;
+	title: string; // As it was when read, the comic may be renamed or deleted later
+	series?: string;
+	startPage: number;
+	endPage: number;
+	pagesRead: number; // Distinct pages shown
+	totalPages: number;
+	startedAt: number;
+	duration: number; // Active reading time in ms
+}
+
+export type ImportJobStatus = 'queued' | 'running' | 'imported' | 'duplicate' | 'failed' | 'cancelled';
+
+// One file in the background import queue, persisted so the queue survives reloads
+export interface ImportJob {
+	id: string;
+	name: string;
+	size: number;
+	file?: File; // Dropped once the job is finished
+	parentId: string | null; // Target folder
+	status: ImportJobStatus;
+	error?: string;
+	itemId?: string; // Library item created, or the existing one for duplicates
+	attempts: number;
+	progress?: number; // 0-1 while running
+	createdAt: number;
+	updatedAt: number;
+}
+
+// Manifest of a stored file, its content lives in BlobChunk records
 export interface BlobRecord {
 	hash: string;
-	data: ArrayBuffer;
+	size: number;
+	chunkSize: number;
+	chunkCount: number;
 	refCount: number;
 }
 
-// Worker message types
+export interface BlobChunk {
+	hash: string;
+	index: number;
+	data: Blob;
+}
+
+// Worker message types (archive.worker.ts)
+// Every request carries an id that its response echoes, CANCEL refers to another request's id
 export interface WorkerMessage {
 	id: string;
-	type: 'LIST_ARCHIVE' | 'EXTRACT_PAGE' | 'ERROR';
-	payload?: any;
+	type: 'LIST_ARCHIVE' | 'EXTRACT_PAGE' | 'CANCEL';
 }
 
 export interface ListArchiveMessage extends WorkerMessage {
@@ -62,27 +176,46 @@ export interface ListArchiveMessage extends WorkerMessage {
 export interface ExtractPageMessage extends WorkerMessage {
 	type: 'EXTRACT_PAGE';
 	payload: {
-		index: number;
+		index: number; // Index into the entries of the last ARCHIVE_LISTED response
 	};
 }
 
+export interface CancelMessage extends WorkerMessage {
+	type: 'CANCEL';
+	payload: {
+		requestId: string;
+	};
+}
+
+export type ArchiveWorkerRequest = ListArchiveMessage | ExtractPageMessage | CancelMessage;
+
 export interface WorkerResponse {
 	id: string;
 	type: 'ARCHIVE_LISTED' | 'PAGE_EXTRACTED' | 'ERROR';
-	payload?: any;
 }
 
 export interface ArchiveListedResponse extends WorkerResponse {
 	type: 'ARCHIVE_LISTED';
 	payload: {
-		entries: ArchiveEntry[];
+		entries: ArchiveEntry[]; // Page images in reading order
+		comicInfoXml?: string;
 	};
 }
 
 export interface PageExtractedResponse extends WorkerResponse {
 	type: 'PAGE_EXTRACTED';
 	payload: {
-		index?: number;
-		blob: Blob;
+		index: number;
+		data: ArrayBuffer; // Transferred, not copied
+	};
+}
+
+export interface ErrorResponse extends WorkerResponse {
+	type: 'ERROR';
+	payload: {
+		message: string;
+		cancelled?: boolean;
 	};
-}
\ No newline at end of file
+}
+
+export type ArchiveWorkerResponse = ArchiveListedResponse | PageExtractedResponse | ErrorResponse;
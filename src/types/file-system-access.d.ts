@@ -16,6 +16,26 @@ declare global {
             accept: Record<string, string[]>;
         }[];
     }): Promise<FileSystemFileHandle[]>;
+
+    showSaveFilePicker(options?: {
+        suggestedName?: string;
+        types?: {
+            description?: string;
+            accept: Record<string, string[]>;
+        }[];
+    }): Promise<FileSystemFileHandle>;
+
+    // Files opened with the installed app through the manifest's file_handlers
+    launchQueue?: LaunchQueue;
+  }
+
+  interface LaunchParams {
+    readonly targetURL?: string;
+    readonly files: readonly FileSystemHandle[];
+  }
+
+  interface LaunchQueue {
+    setConsumer(consumer: (params: LaunchParams) => void): void;
   }
 
   interface FileSystemHandle {
@@ -24,6 +44,8 @@ declare global {
     isSameEntry(other: FileSystemHandle): Promise<boolean>;
     queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
     requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+    // Not available for user-visible files in every browser yet
+    move?(destination: FileSystemDirectoryHandle | string, newName?: string): Promise<void>;
   }
 
   interface FileSystemFileHandle extends FileSystemHandle {